@@ -1,8 +1,20 @@
 import React, { useState, useEffect, useRef } from "react";
 import DrawnixWrapper from "./DrawnixWrapper";
-import { idCreator, PlaitBoard, PlaitElement, Transforms } from "@plait/core";
+import PresenceLayer, { ClientPresence, Viewport } from "./PresenceLayer";
+import {
+  getSelectedElements,
+  idCreator,
+  PlaitBoard,
+  PlaitElement,
+  PlaitHistoryBoard,
+  Point,
+  toHostPoint,
+  toViewBoxPoint,
+  Transforms,
+} from "@plait/core";
 import { buildText } from "@plait/common";
 import { PlaitGeometry, PlaitArrowLine } from "@plait/draw";
+import { MindElement, PlaitMind } from "@plait/mind";
 
 // Type definitions
 interface ServerElement {
@@ -39,26 +51,76 @@ interface WebSocketMessage {
   element?: ServerElement;
   elements?: ServerElement[];
   elementId?: string;
+  elementIds?: string[];
+  boardId?: string;
+  error?: string;
   count?: number;
   timestamp?: string;
   source?: string;
+  applied?: number;
+  rejected?: { id: string; error: string; element?: ServerElement }[];
+  versions?: Record<string, number>;
+  role?: "viewer" | "editor" | "admin";
+  self?: { clientId: string; name: string; color: string };
+  clients?: ClientPresence[];
+  presence?: ClientPresence;
+  clientId?: string;
 }
 
-interface ApiResponse {
-  success: boolean;
-  elements?: ServerElement[];
-  element?: ServerElement;
-  count?: number;
-  error?: string;
-  message?: string;
+// A mind map node as the server sends it, the topic is plain text or the
+// rich text the canvas synced
+interface ServerMindNode {
+  id: string;
+  data?: { topic?: unknown };
+  children?: ServerMindNode[];
+}
+
+interface PresenceChange {
+  cursor?: Point | null;
+  selection?: string[];
+  viewport?: Viewport | null;
 }
 
+// One edit of the board, as sent to the server
+type ElementOperation =
+  | { op: "create"; element: ServerElement }
+  | { op: "update"; element: ServerElement; baseVersion?: number }
+  | { op: "delete"; id: string; baseVersion?: number };
+
 interface ElementBinding {
   id: string;
   type: "text" | "arrow";
 }
 
-type SyncStatus = "idle" | "syncing" | "success" | "error";
+// Cursor, selection and viewport changes are sent at most this often
+const PRESENCE_INTERVAL = 100;
+
+// Edits are collected this long before they are sent, so dragging a shape
+// sends a few messages rather than one per frame
+const SEND_DELAY = 100;
+
+// The board to show comes from ?board=<id>, the server's default board otherwise
+const BOARD_ID = new URLSearchParams(window.location.search).get("board");
+const API_BASE = BOARD_ID
+  ? `/api/boards/${encodeURIComponent(BOARD_ID)}`
+  : "/api";
+
+const pageParams = new URLSearchParams(window.location.search);
+
+// A canvas server with auth needs the ?token=<token> the page was opened with
+const TOKEN = pageParams.get("token");
+const AUTH_HEADERS: Record<string, string> = TOKEN
+  ? { Authorization: `Bearer ${TOKEN}` }
+  : {};
+
+// Others see this client under ?name=<name> with ?color=<colour>, the server
+// picks them when they are missing
+const WEBSOCKET_PARAMS = new URLSearchParams(
+  ["board", "name", "color", "token"].flatMap((key) => {
+    const value = pageParams.get(key);
+    return value ? [[key, value]] : [];
+  })
+).toString();
 
 // Helper function to clean elements for Plait
 const cleanElementForPlait = (
@@ -128,9 +190,22 @@ const validateAndFixBindings = (
   });
 };
 
+// Mind topics are stored as plain text on the server
+const convertMindNode = (node: ServerMindNode): MindElement => {
+  const topic = node.data?.topic;
+  return {
+    ...node,
+    data: {
+      ...node.data,
+      topic: typeof topic === "string" ? buildText(topic) : topic,
+    },
+    children: (node.children || []).map(convertMindNode),
+  } as MindElement;
+};
+
 const convertPlaitElement = (
   element: PlaitElement
-): PlaitGeometry | PlaitArrowLine | undefined => {
+): PlaitGeometry | PlaitArrowLine | PlaitMind | undefined => {
   if (element.type === "geometry") {
     return {
       ...element,
@@ -148,6 +223,8 @@ const convertPlaitElement = (
     return {
       ...element,
     } as any;
+  } else if (element.type === "mind") {
+    return convertMindNode(element as unknown as ServerMindNode) as PlaitMind;
   }
 };
 
@@ -158,8 +235,33 @@ function App(): JSX.Element {
   const websocketRef = useRef<WebSocket | null>(null);
 
   // Sync state management
-  const [syncStatus, setSyncStatus] = useState<SyncStatus>("idle");
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  // The board elements as the server last saw them, by id. Plait replaces an
+  // element object whenever it changes, so a different object is an edit.
+  const syncedRef = useRef<Map<string, PlaitElement>>(new Map());
+  // The server version of every element, edits are based on it
+  const versionsRef = useRef<Map<string, number>>(new Map());
+  const sendTimerRef = useRef<number | null>(null);
+  // Edits are sent one message at a time, the next one is based on the
+  // versions the server answered with
+  const awaitingReplyRef = useRef<boolean>(false);
+  // Viewers watch the board, their edits are not sent
+  const [canEdit, setCanEdit] = useState<boolean>(true);
+  const canEditRef = useRef<boolean>(true);
+
+  // Everyone else on the board, by client id
+  const [presences, setPresences] = useState<Record<string, ClientPresence>>(
+    {}
+  );
+  const [self, setSelf] = useState<WebSocketMessage["self"] | null>(null);
+  // Bumped on every board change so remote cursors follow the viewport
+  const [, setBoardVersion] = useState<number>(0);
+  const pendingPresenceRef = useRef<PresenceChange>({});
+  const presenceTimerRef = useRef<number | null>(null);
+  const lastSelectionRef = useRef<string>("");
+  const lastViewportRef = useRef<string>("");
 
   // WebSocket connection
   useEffect(() => {
@@ -180,7 +282,9 @@ function App(): JSX.Element {
     }
 
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}`;
+    const wsUrl = `${protocol}//${window.location.host}${
+      WEBSOCKET_PARAMS ? `/?${WEBSOCKET_PARAMS}` : ""
+    }`;
 
     websocketRef.current = new WebSocket(wsUrl);
 
@@ -212,9 +316,232 @@ function App(): JSX.Element {
     };
   };
 
+  // Remove nodes by id, from the last index backwards so paths stay valid
+  const removeElementsFromBoard = (ids: string[]): void => {
+    const board = boardRef.current;
+    if (!board) return;
+    const idSet = new Set(ids);
+    for (let index = board.children.length - 1; index >= 0; index--) {
+      if (idSet.has(board.children[index].id)) {
+        Transforms.removeNode(board, [index]);
+      }
+    }
+  };
+
+  // Replace the board content with the server state, outside the undo history
+  const loadElementsIntoBoard = (serverElements: ServerElement[]): void => {
+    const board = boardRef.current;
+    if (!board) return;
+    PlaitHistoryBoard.withoutSaving(board, () => {
+      for (let index = board.children.length - 1; index >= 0; index--) {
+        Transforms.removeNode(board, [index]);
+      }
+      serverElements.forEach((item) => {
+        const node = convertPlaitElement(item as unknown as PlaitElement);
+        if (node) {
+          Transforms.insertNode(board, node as PlaitElement, [
+            board.children.length,
+          ]);
+        }
+      });
+    });
+  };
+
+  // Record elements as the server has them, all of them when no ids are given
+  const markSynced = (ids?: string[]): void => {
+    const board = boardRef.current;
+    if (!board) return;
+    if (!ids) {
+      syncedRef.current = new Map(
+        board.children.map((element) => [element.id, element])
+      );
+      return;
+    }
+    ids.forEach((id) => {
+      const element = board.children.find((child) => child.id === id);
+      if (element) {
+        syncedRef.current.set(id, element);
+      } else {
+        syncedRef.current.delete(id);
+      }
+    });
+  };
+
+  // Elements that came from the server are on the board as the server has
+  // them, so they must not be sent back
+  const acceptServerElements = (serverElements: ServerElement[]): void => {
+    serverElements.forEach((element) =>
+      versionsRef.current.set(element.id, element.version ?? 0)
+    );
+    markSynced(serverElements.map((element) => element.id));
+  };
+
+  // Put an element back as the server has it, after the server rejected an
+  // edit of it
+  const restoreElement = (element: ServerElement): void => {
+    const board = boardRef.current;
+    if (!board) return;
+    const node = convertPlaitElement(element as unknown as PlaitElement);
+    if (!node) return;
+    const index = board.children.findIndex((child) => child.id === element.id);
+    PlaitHistoryBoard.withoutSaving(board, () => {
+      if (index === -1) {
+        Transforms.insertNode(board, node as PlaitElement, [
+          board.children.length,
+        ]);
+      } else {
+        Transforms.setNode(board, node as Partial<PlaitElement>, [index]);
+      }
+    });
+  };
+
+  // The edits made since the last sync, as operations
+  const collectOperations = (): ElementOperation[] => {
+    const board = boardRef.current;
+    if (!board) return [];
+    const synced = syncedRef.current;
+    const versions = versionsRef.current;
+    const operations: ElementOperation[] = [];
+    board.children.forEach((element) => {
+      const previous = synced.get(element.id);
+      if (previous === element) return;
+      operations.push(
+        previous
+          ? {
+              op: "update",
+              element: convertToBackendFormat(element),
+              baseVersion: versions.get(element.id),
+            }
+          : { op: "create", element: convertToBackendFormat(element) }
+      );
+    });
+    const ids = new Set(board.children.map((element) => element.id));
+    synced.forEach((_element, id) => {
+      if (!ids.has(id)) {
+        operations.push({ op: "delete", id, baseVersion: versions.get(id) });
+      }
+    });
+    return operations;
+  };
+
+  const cancelPendingSend = (): void => {
+    if (sendTimerRef.current !== null) {
+      window.clearTimeout(sendTimerRef.current);
+      sendTimerRef.current = null;
+    }
+  };
+
+  // Send the edits made since the last sync to the server, unless it has not
+  // answered the previous ones yet
+  const sendOperations = (): void => {
+    cancelPendingSend();
+    const websocket = websocketRef.current;
+    if (
+      !websocket ||
+      websocket.readyState !== WebSocket.OPEN ||
+      awaitingReplyRef.current
+    ) {
+      return;
+    }
+    if (!canEditRef.current) {
+      if (collectOperations().length > 0) {
+        setSyncError("View only, changes are not saved");
+      }
+      return;
+    }
+    const operations = collectOperations();
+    if (operations.length === 0) return;
+    websocket.send(JSON.stringify({ type: "element_operations", operations }));
+    awaitingReplyRef.current = true;
+    markSynced();
+  };
+
+  const sendPresence = (): void => {
+    presenceTimerRef.current = null;
+    const websocket = websocketRef.current;
+    if (websocket && websocket.readyState === WebSocket.OPEN) {
+      websocket.send(
+        JSON.stringify({
+          type: "presence_update",
+          ...pendingPresenceRef.current,
+        })
+      );
+    }
+    pendingPresenceRef.current = {};
+  };
+
+  const queuePresence = (change: PresenceChange): void => {
+    pendingPresenceRef.current = { ...pendingPresenceRef.current, ...change };
+    if (presenceTimerRef.current === null) {
+      presenceTimerRef.current = window.setTimeout(
+        sendPresence,
+        PRESENCE_INTERVAL
+      );
+    }
+  };
+
+  // Selection and viewport changes are presence, not edits
+  const trackSelectionAndViewport = (board: PlaitBoard): void => {
+    const selection = getSelectedElements(board).map((element) => element.id);
+    if (selection.join(",") !== lastSelectionRef.current) {
+      lastSelectionRef.current = selection.join(",");
+      queuePresence({ selection });
+    }
+    const viewport: Viewport = {
+      zoom: board.viewport.zoom,
+      origination: board.viewport.origination || [0, 0],
+    };
+    if (JSON.stringify(viewport) !== lastViewportRef.current) {
+      lastViewportRef.current = JSON.stringify(viewport);
+      queuePresence({ viewport });
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent): void => {
+    const board = boardRef.current;
+    if (!board) return;
+    queuePresence({
+      cursor: toViewBoxPoint(
+        board,
+        toHostPoint(board, event.clientX, event.clientY)
+      ),
+    });
+  };
+
+  // Called for every board change, including selection and viewport ones
+  const handleBoardChange = (): void => {
+    if (sendTimerRef.current === null) {
+      sendTimerRef.current = window.setTimeout(sendOperations, SEND_DELAY);
+    }
+    if (boardRef.current) {
+      trackSelectionAndViewport(boardRef.current);
+    }
+    setBoardVersion((version) => version + 1);
+  };
+
   const handleWebSocketMessage = (data: WebSocketMessage): void => {
     try {
       switch (data.type) {
+        case "initial_elements":
+        case "board_reloaded":
+          // The server state replaces local edits that were not sent yet
+          cancelPendingSend();
+          awaitingReplyRef.current = false;
+          versionsRef.current.clear();
+          syncedRef.current.clear();
+          if (data.role) {
+            canEditRef.current = data.role !== "viewer";
+            setCanEdit(canEditRef.current);
+          }
+          loadElementsIntoBoard(data.elements || []);
+          acceptServerElements(data.elements || []);
+          break;
+        case "board_deleted":
+          console.warn(`Board ${data.boardId} was deleted`);
+          break;
+        case "error":
+          console.error("Server error:", data.error);
+          break;
         case "element_created":
           if (data.element) {
             console.log(data.element);
@@ -225,6 +552,106 @@ function App(): JSX.Element {
             elements.length,
           ]);
           console.log(element, "convertPlaitElement");
+          acceptServerElements([data.element!]);
+          break;
+        case "elements_batch_created": {
+          if (!data.elements || data.elements.length === 0) break;
+          const board = boardRef.current!;
+          const nodes = data.elements.map(
+            (item) => convertPlaitElement(item as PlaitElement) as PlaitElement
+          );
+          // One history batch, so the whole diagram is a single undo step
+          PlaitHistoryBoard.withNewBatch(board, () => {
+            nodes.forEach((node) => {
+              Transforms.insertNode(board, node, [board.children.length]);
+            });
+          });
+          acceptServerElements(data.elements);
+          break;
+        }
+        case "element_updated": {
+          if (!data.element) break;
+          const board = boardRef.current!;
+          const index = board.children.findIndex(
+            (child) => child.id === data.element!.id
+          );
+          if (index === -1) {
+            console.warn(`Updated element ${data.element.id} not on board`);
+            break;
+          }
+          const updated = convertPlaitElement(data.element as PlaitElement);
+          Transforms.setNode(board, updated as Partial<PlaitElement>, [index]);
+          acceptServerElements([data.element]);
+          break;
+        }
+        case "element_deleted":
+          if (data.elementIds) {
+            removeElementsFromBoard(data.elementIds);
+            data.elementIds.forEach((id) => versionsRef.current.delete(id));
+            markSynced(data.elementIds);
+          }
+          break;
+        case "operations_applied": {
+          awaitingReplyRef.current = false;
+          Object.entries(data.versions || {}).forEach(([id, version]) =>
+            versionsRef.current.set(id, version)
+          );
+          const rejected = data.rejected || [];
+          if (rejected.length > 0) {
+            // The edits were outdated or invalid: show the element as the
+            // server has it, or drop it when the server does not have it
+            console.warn("Edits rejected by the server:", rejected);
+            rejected.forEach(({ id, element }) => {
+              if (element) {
+                restoreElement(element);
+                acceptServerElements([element]);
+                return;
+              }
+              const board = boardRef.current;
+              if (board) {
+                PlaitHistoryBoard.withoutSaving(board, () =>
+                  removeElementsFromBoard([id])
+                );
+              }
+              versionsRef.current.delete(id);
+              markSynced([id]);
+            });
+            setSyncError(
+              `${rejected.length} edits rejected: ${rejected[0].error}`
+            );
+          } else {
+            setSyncError(null);
+            setLastSyncTime(new Date());
+          }
+          // Edits made while waiting for this reply
+          sendOperations();
+          break;
+        }
+        case "presence_state":
+          setSelf(data.self || null);
+          setPresences(
+            Object.fromEntries(
+              (data.clients || []).map((presence) => [
+                presence.clientId,
+                presence,
+              ])
+            )
+          );
+          break;
+        case "presence":
+          if (data.presence) {
+            const presence = data.presence;
+            setPresences((current) => ({
+              ...current,
+              [presence.clientId]: presence,
+            }));
+          }
+          break;
+        case "presence_left":
+          setPresences((current) => {
+            const { [data.clientId!]: _left, ...others } = current;
+            return others;
+          });
           break;
         case "elements_synced":
           console.log(`Sync confirmed by server: ${data.count} elements`);
@@ -260,69 +687,23 @@ function App(): JSX.Element {
     });
   };
 
-  // Main sync function
-  const syncToBackend = async (): Promise<void> => {
-    setSyncStatus("syncing");
-
-    try {
-      // 1. Get current elements
-      console.log(`Syncing ${elements.length} elements to backend`);
-
-      // 2. Filter out deleted elements
-      const activeElements = elements.filter((el) => !el.isDeleted);
-
-      // 3. Convert to backend format
-      const backendElements = activeElements.map(convertToBackendFormat);
-
-      // 4. Send to backend
-      const response = await fetch("/api/elements/sync", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          elements: backendElements,
-          timestamp: new Date().toISOString(),
-        }),
-      });
-
-      if (response.ok) {
-        const result: ApiResponse = await response.json();
-        setSyncStatus("success");
-        setLastSyncTime(new Date());
-        console.log(`Sync successful: ${result.count} elements synced`);
-
-        // Reset status after 2 seconds
-        setTimeout(() => setSyncStatus("idle"), 2000);
-      } else {
-        const error: ApiResponse = await response.json();
-        setSyncStatus("error");
-        console.error("Sync failed:", error.error);
-      }
-    } catch (error) {
-      setSyncStatus("error");
-      console.error("Sync error:", error);
-    }
-  };
-
   const clearCanvas = async (): Promise<void> => {
     try {
-      // Get all current elements and delete them from backend
-      const response = await fetch("/api/elements");
-      const result: ApiResponse = await response.json();
-
-      if (result.success && result.elements) {
-        const deletePromises = result.elements.map((element) =>
-          fetch(`/api/elements/${element.id}`, { method: "DELETE" })
-        );
-        await Promise.all(deletePromises);
-      }
-
-      // Clear the frontend canvas
+      // Delete all elements from backend in one request
+      await fetch(`${API_BASE}/elements`, {
+        method: "DELETE",
+        headers: { ...AUTH_HEADERS, "X-Plait-Origin": "frontend" },
+      });
     } catch (error) {
       console.error("Error clearing canvas:", error);
       // Still clear frontend even if backend fails
     }
+
+    // Clear the frontend canvas, including elements the backend never saw
+    const board = boardRef.current;
+    if (board) {
+      removeElementsFromBoard(board.children.map((child) => child.id));
+    }
   };
 
   return (
@@ -340,49 +721,65 @@ function App(): JSX.Element {
             <span>{isConnected ? "Connected" : "Disconnected"}</span>
           </div>
 
-          {/* Sync Controls */}
-          <div className="sync-controls">
-            <button
-              className={`btn-primary ${
-                syncStatus === "syncing" ? "btn-loading" : ""
-              }`}
-              onClick={syncToBackend}
-              disabled={syncStatus === "syncing"}
-            >
-              {syncStatus === "syncing" && <span className="spinner"></span>}
-              {syncStatus === "syncing" ? "Syncing..." : "Sync to Backend"}
-            </button>
+          {/* Who else is on the board */}
+          <div className="presence-list">
+            {self && (
+              <span
+                className="presence-name"
+                style={{ borderColor: self.color }}
+                title="You"
+              >
+                {self.name} (you)
+              </span>
+            )}
+            {Object.values(presences).map((presence) => (
+              <span
+                key={presence.clientId}
+                className="presence-name"
+                style={{ borderColor: presence.color }}
+              >
+                {presence.name}
+              </span>
+            ))}
+          </div>
 
-            {/* Sync Status */}
-            <div className="sync-status">
-              {syncStatus === "success" && (
-                <span className="sync-success">✅ Synced</span>
-              )}
-              {syncStatus === "error" && (
-                <span className="sync-error">❌ Sync Failed</span>
-              )}
-              {lastSyncTime && syncStatus === "idle" && (
-                <span className="sync-time">
-                  Last sync: {formatSyncTime(lastSyncTime)}
-                </span>
-              )}
-            </div>
+          {/* Sync Status */}
+          <div className="sync-status">
+            {syncError && <span className="sync-error">❌ {syncError}</span>}
+            {!syncError && lastSyncTime && (
+              <span className="sync-time">
+                Last sync: {formatSyncTime(lastSyncTime)}
+              </span>
+            )}
           </div>
 
-          <button className="btn-secondary" onClick={clearCanvas}>
-            Clear Canvas
-          </button>
+          {canEdit ? (
+            <button className="btn-secondary" onClick={clearCanvas}>
+              Clear Canvas
+            </button>
+          ) : (
+            <span className="view-only">View only</span>
+          )}
         </div>
       </div>
 
       {/* Canvas Container */}
-      <div className="canvas-container">
+      <div
+        className="canvas-container"
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => queuePresence({ cursor: null })}
+      >
         <DrawnixWrapper
           elements={elements}
+          onChange={handleBoardChange}
           afterInit={(board: PlaitBoard) => {
             boardRef.current = board;
           }}
         />
+        <PresenceLayer
+          board={boardRef.current}
+          presences={Object.values(presences)}
+        />
       </div>
     </div>
   );
@@ -8,10 +8,16 @@ import "./../../node_modules/@plait-board/react-text/index.css";
 
 interface DrawnixWrapperProps {
   elements: PlaitElement[];
+  // Called after every change of the board with its elements
+  onChange?: (elements: PlaitElement[]) => void;
   afterInit?: (board: PlaitBoard) => void;
 }
 
-const DrawnixWrapper = ({ elements, afterInit }: DrawnixWrapperProps) => {
+const DrawnixWrapper = ({
+  elements,
+  onChange,
+  afterInit,
+}: DrawnixWrapperProps) => {
   const boardRef = useRef<PlaitBoard | null>(null);
   const theme = { themeColorMode: ThemeColorMode.colorful };
 
@@ -20,7 +26,9 @@ const DrawnixWrapper = ({ elements, afterInit }: DrawnixWrapperProps) => {
       <Drawnix
         value={elements}
         theme={theme}
-        onChange={(value) => {}}
+        onChange={() => {
+          boardRef.current && onChange && onChange(boardRef.current.children);
+        }}
         afterInit={(board: PlaitBoard) => {
           boardRef.current = board;
           afterInit && afterInit(board);
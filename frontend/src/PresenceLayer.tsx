@@ -0,0 +1,114 @@
+import { useRef } from "react";
+import {
+  getRectangleByElements,
+  PlaitBoard,
+  Point,
+  toHostPointFromViewBoxPoint,
+} from "@plait/core";
+
+export interface Viewport {
+  zoom: number;
+  origination: Point;
+}
+
+export interface ClientPresence {
+  clientId: string;
+  name: string;
+  color: string;
+  kind: "user" | "agent";
+  cursor: Point | null;
+  selection: string[];
+  viewport: Viewport | null;
+}
+
+interface PresenceLayerProps {
+  board: PlaitBoard | null;
+  presences: ClientPresence[];
+}
+
+// Offset of the board host within the layer, host points are relative to it
+const hostOffset = (board: PlaitBoard, layer: HTMLElement | null): Point => {
+  if (!layer) return [0, 0];
+  const host = PlaitBoard.getHost(board).getBoundingClientRect();
+  const container = layer.getBoundingClientRect();
+  return [host.left - container.left, host.top - container.top];
+};
+
+// Remote cursors with their names and outlines around what others selected,
+// drawn over the board. Re-render it when the viewport or elements change.
+const PresenceLayer = ({ board, presences }: PresenceLayerProps) => {
+  const layerRef = useRef<HTMLDivElement | null>(null);
+  if (!board) return <div className="presence-layer" ref={layerRef} />;
+  const [offsetX, offsetY] = hostOffset(board, layerRef.current);
+  const toLayerPoint = (point: Point): Point => {
+    const [x, y] = toHostPointFromViewBoxPoint(board, point);
+    return [x + offsetX, y + offsetY];
+  };
+
+  return (
+    <div className="presence-layer" ref={layerRef}>
+      {presences.map((presence) => {
+        const elements = board.children.filter((element) =>
+          presence.selection.includes(element.id)
+        );
+        const rectangle =
+          elements.length > 0
+            ? getRectangleByElements(board, elements, false)
+            : null;
+        const [left, top] = rectangle
+          ? toLayerPoint([rectangle.x, rectangle.y])
+          : [0, 0];
+        const [right, bottom] = rectangle
+          ? toLayerPoint([
+              rectangle.x + rectangle.width,
+              rectangle.y + rectangle.height,
+            ])
+          : [0, 0];
+        const cursor = presence.cursor && toLayerPoint(presence.cursor);
+
+        return (
+          <div key={presence.clientId}>
+            {rectangle && (
+              <div
+                className={`remote-selection ${
+                  presence.kind === "agent" ? "remote-selection-agent" : ""
+                }`}
+                style={{
+                  left: left - 4,
+                  top: top - 4,
+                  width: right - left + 8,
+                  height: bottom - top + 8,
+                  borderColor: presence.color,
+                }}
+              />
+            )}
+            {cursor && (
+              <div
+                className="remote-cursor"
+                style={{
+                  transform: `translate(${cursor[0]}px, ${cursor[1]}px)`,
+                }}
+              >
+                <svg width="16" height="16" viewBox="0 0 16 16">
+                  <path
+                    d="M1 1 L1 13 L4.5 9.5 L7 15 L9 14 L6.5 8.5 L11 8.5 Z"
+                    fill={presence.color}
+                    stroke="white"
+                  />
+                </svg>
+                <span
+                  className="remote-cursor-label"
+                  style={{ backgroundColor: presence.color }}
+                >
+                  {presence.name}
+                </span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PresenceLayer;
@@ -0,0 +1,112 @@
+import fs from "fs";
+import { createHash } from "crypto";
+import { IncomingMessage } from "http";
+import { z } from "zod";
+
+// Each role can do everything the roles before it can
+export const ROLES = ["viewer", "editor", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Who a token belongs to and what it may do
+export interface TokenGrant {
+  name: string;
+  role: Role;
+}
+
+export interface AuthOptions {
+  // "token:role" or "token:role:name" entries separated by commas
+  tokens?: string;
+  // A JSON file of { "tokens": [{ "token", "role", "name"? }] }
+  file?: string;
+}
+
+const authFileSchema = z.object({
+  tokens: z.array(
+    z.object({
+      token: z.string().min(1),
+      role: z.enum(ROLES),
+      name: z.string().min(1).optional(),
+    })
+  ),
+});
+
+// Without any tokens configured everyone is an admin, as before auth existed
+const ANONYMOUS: TokenGrant = { name: "anonymous", role: "admin" };
+
+// Tokens are kept and looked up by hash, so comparing them does not leak how
+// much of a guessed token is right
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function hasRole(grant: TokenGrant, required: Role): boolean {
+  return ROLES.indexOf(grant.role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Bearer tokens of the canvas API, from CANVAS_TOKENS and the file named by
+ * CANVAS_AUTH_FILE. Auth is off when neither configures a token.
+ */
+export class TokenAuth {
+  private readonly grants = new Map<string, TokenGrant>();
+
+  constructor(options: AuthOptions = {}) {
+    (options.tokens || "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .forEach((entry) => {
+        const [token, role, name] = entry.split(":");
+        if (!token || !ROLES.includes(role as Role)) {
+          throw new Error(
+            `Invalid token entry "${entry}", expected token:role with role ${ROLES.join(", ")}`
+          );
+        }
+        this.add(token, role as Role, name);
+      });
+
+    if (options.file) {
+      const result = authFileSchema.safeParse(
+        JSON.parse(fs.readFileSync(options.file, "utf8"))
+      );
+      if (!result.success) {
+        throw new Error(
+          `Invalid auth file ${options.file}: ${result.error.issues
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join(", ")}`
+        );
+      }
+      result.data.tokens.forEach(({ token, role, name }) =>
+        this.add(token, role, name)
+      );
+    }
+  }
+
+  get enabled(): boolean {
+    return this.grants.size > 0;
+  }
+
+  // The grant of a token, null when it is missing or unknown
+  authenticate(token: string | undefined): TokenGrant | null {
+    if (!this.enabled) return ANONYMOUS;
+    if (!token) return null;
+    return this.grants.get(hashToken(token)) ?? null;
+  }
+
+  // The token of an HTTP request or WebSocket handshake, from an
+  // "Authorization: Bearer" header or a ?token= parameter, which is all a
+  // browser WebSocket can send
+  static tokenOf(req: IncomingMessage): string | undefined {
+    const header = req.headers.authorization;
+    if (header?.startsWith("Bearer ")) {
+      return header.slice("Bearer ".length).trim();
+    }
+    const url = new URL(req.url || "/", "http://localhost");
+    return url.searchParams.get("token") || undefined;
+  }
+
+  private add(token: string, role: Role, name?: string): void {
+    this.grants.set(hashToken(token), { name: name || role, role });
+  }
+}
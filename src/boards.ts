@@ -0,0 +1,199 @@
+import fs from "fs";
+import path from "path";
+import logger from "./utils/logger.js";
+import { BoardInfo } from "./plait-types.js";
+import { createElementStore, ElementStore } from "./storage/index.js";
+import { BoardHistory } from "./history.js";
+import { SnapshotStore } from "./snapshots.js";
+
+export interface Board {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  elements: ElementStore;
+  // Undo and redo stacks, kept in memory only
+  history: BoardHistory;
+  snapshots: SnapshotStore;
+}
+
+export interface BoardRegistryOptions {
+  storageType: string;
+  storagePath: string;
+  defaultBoardId: string;
+}
+
+interface BoardsFile {
+  boards: Omit<Board, "elements" | "history" | "snapshots">[];
+}
+
+const BOARD_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const BOARDS_FILE = "boards.json";
+
+export function isValidBoardId(id: string): boolean {
+  return BOARD_ID_PATTERN.test(id);
+}
+
+/**
+ * Named boards, each with its own element store. With file storage every
+ * board lives in `<storagePath>/boards/<boardId>` and the board list is kept
+ * in `<storagePath>/boards.json`.
+ */
+export class BoardRegistry {
+  private readonly boards = new Map<string, Board>();
+
+  constructor(private readonly options: BoardRegistryOptions) {}
+
+  get defaultBoardId(): string {
+    return this.options.defaultBoardId;
+  }
+
+  private get persistent(): boolean {
+    return this.options.storageType !== "memory";
+  }
+
+  private boardDirectory(id: string): string {
+    return path.join(this.options.storagePath, "boards", id);
+  }
+
+  private createSnapshotStore(id: string): SnapshotStore {
+    return new SnapshotStore(
+      this.persistent ? path.join(this.boardDirectory(id), "snapshots") : null
+    );
+  }
+
+  // Restore every board and make sure the default board exists
+  async load(): Promise<void> {
+    const boardsPath = path.join(this.options.storagePath, BOARDS_FILE);
+    if (this.persistent && fs.existsSync(boardsPath)) {
+      const file = JSON.parse(
+        fs.readFileSync(boardsPath, "utf8")
+      ) as BoardsFile;
+      for (const info of file.boards) {
+        const board: Board = {
+          ...info,
+          elements: createElementStore(
+            this.options.storageType,
+            this.boardDirectory(info.id)
+          ),
+          history: new BoardHistory(),
+          snapshots: this.createSnapshotStore(info.id),
+        };
+        await board.elements.load();
+        await board.snapshots.load();
+        this.boards.set(board.id, board);
+      }
+    }
+
+    if (!this.boards.has(this.defaultBoardId)) {
+      await this.create(this.defaultBoardId, "Default board");
+    }
+    logger.info(`Loaded ${this.boards.size} boards`);
+  }
+
+  async close(): Promise<void> {
+    for (const board of this.boards.values()) {
+      await board.elements.close();
+    }
+  }
+
+  get(id: string): Board | undefined {
+    return this.boards.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.boards.has(id);
+  }
+
+  list(): BoardInfo[] {
+    return Array.from(this.boards.values()).map((board) => this.info(board));
+  }
+
+  info(board: Board): BoardInfo {
+    return {
+      id: board.id,
+      name: board.name,
+      createdAt: board.createdAt,
+      updatedAt: board.updatedAt,
+      elementCount: board.elements.size,
+      isDefault: board.id === this.defaultBoardId,
+    };
+  }
+
+  async create(id: string, name?: string): Promise<Board> {
+    if (!isValidBoardId(id)) {
+      throw new Error(
+        `Invalid board id "${id}": use 1-64 letters, digits, "-" or "_"`
+      );
+    }
+    if (this.boards.has(id)) {
+      throw new Error(`Board ${id} already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const board: Board = {
+      id,
+      name: name || id,
+      createdAt: now,
+      updatedAt: now,
+      elements: createElementStore(
+        this.options.storageType,
+        this.boardDirectory(id)
+      ),
+      history: new BoardHistory(),
+      snapshots: this.createSnapshotStore(id),
+    };
+    await board.elements.load();
+    await board.snapshots.load();
+    this.boards.set(id, board);
+    this.save();
+    return board;
+  }
+
+  rename(id: string, name: string): Board {
+    const board = this.boards.get(id);
+    if (!board) {
+      throw new Error(`Board ${id} not found`);
+    }
+    board.name = name;
+    board.updatedAt = new Date().toISOString();
+    this.save();
+    return board;
+  }
+
+  async delete(id: string): Promise<void> {
+    const board = this.boards.get(id);
+    if (!board) {
+      throw new Error(`Board ${id} not found`);
+    }
+    if (id === this.defaultBoardId) {
+      throw new Error("The default board can not be deleted");
+    }
+
+    await board.elements.close();
+    this.boards.delete(id);
+    this.save();
+    if (this.persistent) {
+      fs.rmSync(this.boardDirectory(id), { recursive: true, force: true });
+    }
+  }
+
+  // Write the board list atomically
+  private save(): void {
+    if (!this.persistent) return;
+    const file: BoardsFile = {
+      boards: Array.from(this.boards.values()).map(
+        ({
+          elements: _elements,
+          history: _history,
+          snapshots: _snapshots,
+          ...info
+        }) => info
+      ),
+    };
+    fs.mkdirSync(this.options.storagePath, { recursive: true });
+    const boardsPath = path.join(this.options.storagePath, BOARDS_FILE);
+    fs.writeFileSync(`${boardsPath}.tmp`, JSON.stringify(file, null, 2));
+    fs.renameSync(`${boardsPath}.tmp`, boardsPath);
+  }
+}
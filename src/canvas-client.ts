@@ -0,0 +1,516 @@
+import fetch from "node-fetch";
+import logger from "./utils/logger.js";
+import { ElementConflict, ServerElement } from "./plait-types.js";
+import { HistorySummary, OperationOrigin, ORIGIN_HEADER } from "./history.js";
+import { ElementDiff, SnapshotInfo } from "./snapshots.js";
+import { ElementQuery } from "./query.js";
+import { CanvasService, VersionConflictError } from "./canvas-service.js";
+import {
+  CanvasOutbox,
+  CanvasUnreachableError,
+  OutboxEntry,
+  SyncOperation,
+} from "./outbox.js";
+
+// API Response types
+interface ApiResponse {
+  success: boolean;
+  element?: ServerElement;
+  elements?: ServerElement[];
+  message?: string;
+  count?: number;
+}
+
+// The canvas answered but refused the data, e.g. because it is invalid
+export class CanvasRejectedError extends Error {}
+
+// A request the canvas has not answered after this long fails, a write is
+// tried again later
+const REQUEST_TIMEOUT = 10_000;
+// A proxy or server that is down or overloaded answers with these, any other
+// server error was caused by the write and would be caused again
+const UNAVAILABLE_STATUSES = [502, 503, 504];
+
+export interface SyncResponse {
+  element?: ServerElement;
+  elements?: ServerElement[];
+  deletedIds?: string[];
+  detachedIds?: string[];
+}
+
+// What became of a write: stored on the canvas, queued in the outbox until
+// the canvas can be reached, or dropped because sync is turned off
+export type SyncResult =
+  | { status: "synced"; response: SyncResponse }
+  | { status: "queued"; entry: OutboxEntry }
+  | { status: "disabled" };
+
+export interface HistoryResult {
+  entries: HistorySummary[];
+  stopped?: string;
+}
+
+/**
+ * The canvas as the MCP tools see it: a canvas server reached over HTTP, or
+ * the boards of a canvas running in the same process.
+ */
+export interface CanvasClient {
+  // Writes the canvas can not be reached for wait here, none when embedded
+  readonly outbox: CanvasOutbox | null;
+  // Where the canvas is, for sync_status
+  readonly location: string;
+  sync(
+    operation: SyncOperation,
+    data: any,
+    boardId: string
+  ): Promise<SyncResult>;
+  listElements(boardId: string): Promise<ServerElement[]>;
+  getElement(boardId: string, id: string): Promise<ServerElement>;
+  searchElements(
+    boardId: string,
+    query: ElementQuery
+  ): Promise<ServerElement[]>;
+  // Throws when there is nothing to undo or redo
+  history(
+    boardId: string,
+    direction: "undo" | "redo",
+    origin: OperationOrigin | "any",
+    steps?: number
+  ): Promise<HistoryResult>;
+  saveSnapshot(boardId: string, name: string): Promise<SnapshotInfo>;
+  listSnapshots(boardId: string): Promise<SnapshotInfo[]>;
+  restoreSnapshot(
+    boardId: string,
+    idOrName: string
+  ): Promise<{ snapshot: SnapshotInfo; count: number }>;
+  diffSnapshots(
+    boardId: string,
+    from: string,
+    to: string
+  ): Promise<ElementDiff>;
+}
+
+// The error of stale writes, with the current state for the agent to retry on
+function conflictError(
+  message: string | undefined,
+  conflicts: ElementConflict[]
+): CanvasRejectedError {
+  return new CanvasRejectedError(
+    `${message}\n\nCurrent state:\n${JSON.stringify(
+      conflicts.map((conflict) => conflict.element),
+      null,
+      2
+    )}`
+  );
+}
+
+export interface HttpCanvasOptions {
+  url: string;
+  // Sent with every request when the canvas requires tokens
+  token?: string;
+  // Off, writes are dropped and reads fail
+  enabled: boolean;
+}
+
+// A canvas server reached over HTTP, writes are queued while it is down
+export class HttpCanvasClient implements CanvasClient {
+  readonly outbox: CanvasOutbox;
+  private readonly authHeaders: Record<string, string>;
+  private readonly writeHeaders: Record<string, string>;
+
+  constructor(private readonly options: HttpCanvasOptions) {
+    this.authHeaders = options.token
+      ? { Authorization: `Bearer ${options.token}` }
+      : {};
+    // Writes are tagged as ours, so the canvas can undo agent operations on
+    // their own
+    this.writeHeaders = {
+      ...this.authHeaders,
+      "Content-Type": "application/json",
+      [ORIGIN_HEADER]: "mcp",
+    };
+    // Writes that did not reach the canvas yet, replayed in order once it is
+    // back
+    this.outbox = new CanvasOutbox(async (entry) => {
+      await this.send(entry.operation, entry.data, entry.boardId);
+    });
+  }
+
+  get location(): string {
+    return this.options.url;
+  }
+
+  // A write the canvas refuses throws; an unreachable canvas queues it
+  // instead, and so does any write made while earlier ones are still queued,
+  // so none overtakes another
+  async sync(
+    operation: SyncOperation,
+    data: any,
+    boardId: string
+  ): Promise<SyncResult> {
+    if (!this.options.enabled) {
+      logger.debug("Canvas sync disabled, skipping");
+      return { status: "disabled" };
+    }
+
+    if (this.outbox.size > 0) {
+      await this.outbox.flush();
+      if (this.outbox.size > 0) {
+        return {
+          status: "queued",
+          entry: this.outbox.enqueue(operation, boardId, data),
+        };
+      }
+    }
+
+    try {
+      return {
+        status: "synced",
+        response: await this.send(operation, data, boardId),
+      };
+    } catch (error) {
+      if (!(error instanceof CanvasUnreachableError)) {
+        throw error;
+      }
+      logger.warn(`Canvas sync failed for ${operation}:`, error.message);
+      return {
+        status: "queued",
+        entry: this.outbox.enqueue(operation, boardId, data, error.message),
+      };
+    }
+  }
+
+  async listElements(boardId: string): Promise<ServerElement[]> {
+    const { elements } = await this.request<{ elements: ServerElement[] }>(
+      "/elements",
+      boardId
+    );
+    return elements;
+  }
+
+  async getElement(boardId: string, id: string): Promise<ServerElement> {
+    const { element } = await this.request<{ element: ServerElement }>(
+      `/elements/${encodeURIComponent(id)}`,
+      boardId
+    );
+    return element;
+  }
+
+  async searchElements(
+    boardId: string,
+    { within, ...filters }: ElementQuery
+  ): Promise<ServerElement[]> {
+    const query = new URLSearchParams(
+      Object.entries(filters).filter(
+        (entry): entry is [string, string] => entry[1] !== undefined
+      )
+    );
+    if (within) {
+      query.set("within", within.flat().join(","));
+    }
+    const { elements } = await this.request<{ elements: ServerElement[] }>(
+      `/elements/search?${query}`,
+      boardId
+    );
+    return elements;
+  }
+
+  async history(
+    boardId: string,
+    direction: "undo" | "redo",
+    origin: OperationOrigin | "any",
+    steps?: number
+  ): Promise<HistoryResult> {
+    const result = await this.request<{
+      undone?: HistorySummary[];
+      redone?: HistorySummary[];
+      stopped?: string;
+    }>(`/${direction}`, boardId, { origin, steps });
+    return {
+      entries: result.undone || result.redone || [],
+      stopped: result.stopped,
+    };
+  }
+
+  async saveSnapshot(boardId: string, name: string): Promise<SnapshotInfo> {
+    const { snapshot } = await this.request<{ snapshot: SnapshotInfo }>(
+      "/snapshots",
+      boardId,
+      { name }
+    );
+    return snapshot;
+  }
+
+  async listSnapshots(boardId: string): Promise<SnapshotInfo[]> {
+    const { snapshots } = await this.request<{ snapshots: SnapshotInfo[] }>(
+      "/snapshots",
+      boardId
+    );
+    return snapshots;
+  }
+
+  restoreSnapshot(
+    boardId: string,
+    idOrName: string
+  ): Promise<{ snapshot: SnapshotInfo; count: number }> {
+    return this.request(
+      `/snapshots/${encodeURIComponent(idOrName)}/restore`,
+      boardId,
+      {}
+    );
+  }
+
+  diffSnapshots(
+    boardId: string,
+    from: string,
+    to: string
+  ): Promise<ElementDiff> {
+    return this.request(
+      `/snapshots/diff?${new URLSearchParams({ from, to })}`,
+      boardId
+    );
+  }
+
+  // Base URL of the board-scoped canvas API
+  private boardApiUrl(boardId: string): string {
+    return `${this.options.url}/api/boards/${encodeURIComponent(boardId)}`;
+  }
+
+  // Send one write to the canvas. Throws CanvasRejectedError when the canvas
+  // refuses it and CanvasUnreachableError when it should be tried again
+  private async send(
+    operation: SyncOperation,
+    data: any,
+    boardId: string
+  ): Promise<SyncResponse> {
+    const { url, method } = {
+      create: { url: "/elements", method: "POST" },
+      batch_create: { url: "/elements/batch", method: "POST" },
+      update: {
+        url: `/elements/${encodeURIComponent(data.id)}`,
+        method: "PATCH",
+      },
+      delete: { url: "/elements", method: "DELETE" },
+    }[operation];
+
+    logger.debug(`Syncing to canvas: ${operation}`, { url, boardId, data });
+    let response;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+    try {
+      response = await fetch(`${this.boardApiUrl(boardId)}${url}`, {
+        method,
+        headers: this.writeHeaders,
+        body: JSON.stringify(data),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw new CanvasUnreachableError(
+        controller.signal.aborted
+          ? `Canvas server did not answer within ${REQUEST_TIMEOUT / 1000} s`
+          : `Canvas server unavailable: ${(error as Error).message}`
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as {
+        error?: string;
+        conflicts?: ElementConflict[];
+      } | null;
+      // Someone else changed the element, hand its current state to the agent
+      if (response.status === 409 && body?.conflicts) {
+        throw conflictError(body.error, body.conflicts);
+      }
+      // Invalid data, a missing element, a token that may not do this or a
+      // server error the write runs into
+      if (!UNAVAILABLE_STATUSES.includes(response.status)) {
+        throw new CanvasRejectedError(
+          body?.error ||
+            `Canvas refused ${operation}: ${response.status} ${response.statusText}`
+        );
+      }
+      throw new CanvasUnreachableError(
+        `Canvas sync failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const result = (await response.json()) as ApiResponse;
+    logger.debug(`Canvas sync successful: ${operation}`, result);
+    return result as SyncResponse;
+  }
+
+  // Read from the canvas, or POST a command such as undo when a body is
+  // given. Unlike writes, these have nothing to fall back on when the canvas
+  // is unavailable, so failures are reported
+  private async request<T>(
+    path: string,
+    boardId: string,
+    body?: unknown
+  ): Promise<T> {
+    if (!this.options.enabled) {
+      throw new Error("Canvas sync is disabled, the canvas can not be reached");
+    }
+
+    const url = `${this.boardApiUrl(boardId)}${path}`;
+    logger.debug("Requesting canvas", { url });
+    let response;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+    try {
+      response = await fetch(
+        url,
+        body === undefined
+          ? { headers: this.authHeaders, signal: controller.signal }
+          : {
+              method: "POST",
+              headers: this.writeHeaders,
+              body: JSON.stringify(body),
+              signal: controller.signal,
+            }
+      );
+    } catch (error) {
+      throw new Error(
+        controller.signal.aborted
+          ? `Canvas server did not answer within ${REQUEST_TIMEOUT / 1000} s`
+          : `Canvas server unavailable: ${(error as Error).message}`
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+    const result = (await response.json().catch(() => null)) as
+      (T & { error?: string }) | null;
+    if (!response.ok || !result) {
+      throw new Error(
+        result?.error ||
+          `Canvas request failed: ${response.status} ${response.statusText}`
+      );
+    }
+    return result;
+  }
+}
+
+// The boards of a canvas running in this process, used without HTTP. Writes
+// are tagged as the agent's like those sent over HTTP.
+export class EmbeddedCanvasClient implements CanvasClient {
+  readonly outbox = null;
+
+  constructor(
+    private readonly service: CanvasService,
+    readonly location: string
+  ) {}
+
+  async sync(
+    operation: SyncOperation,
+    data: any,
+    boardId: string
+  ): Promise<SyncResult> {
+    try {
+      return {
+        status: "synced",
+        response: this.write(operation, data, boardId),
+      };
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        throw conflictError(error.message, error.conflicts);
+      }
+      throw error;
+    }
+  }
+
+  async listElements(boardId: string): Promise<ServerElement[]> {
+    return this.service.listElements(boardId);
+  }
+
+  async getElement(boardId: string, id: string): Promise<ServerElement> {
+    return this.service.getElement(boardId, id);
+  }
+
+  async searchElements(
+    boardId: string,
+    query: ElementQuery
+  ): Promise<ServerElement[]> {
+    return this.service.searchElements(boardId, query);
+  }
+
+  async history(
+    boardId: string,
+    direction: "undo" | "redo",
+    origin: OperationOrigin | "any",
+    steps?: number
+  ): Promise<HistoryResult> {
+    const result = this.service.history(
+      boardId,
+      direction,
+      origin === "any" ? undefined : origin,
+      steps
+    );
+    if (result.entries.length === 0) {
+      throw new Error(result.stopped || `Nothing to ${direction}`);
+    }
+    return result;
+  }
+
+  async saveSnapshot(boardId: string, name: string): Promise<SnapshotInfo> {
+    return this.service.saveSnapshot(boardId, name);
+  }
+
+  async listSnapshots(boardId: string): Promise<SnapshotInfo[]> {
+    return this.service.board(boardId).snapshots.list();
+  }
+
+  async restoreSnapshot(
+    boardId: string,
+    idOrName: string
+  ): Promise<{ snapshot: SnapshotInfo; count: number }> {
+    const { snapshot, elements } = this.service.restoreSnapshot(
+      boardId,
+      idOrName,
+      "mcp"
+    );
+    return { snapshot, count: elements.length };
+  }
+
+  async diffSnapshots(
+    boardId: string,
+    from: string,
+    to: string
+  ): Promise<ElementDiff> {
+    return this.service.diffSnapshots(boardId, from, to);
+  }
+
+  private write(
+    operation: SyncOperation,
+    data: any,
+    boardId: string
+  ): SyncResponse {
+    switch (operation) {
+      case "create":
+        return { element: this.service.createElement(boardId, data, "mcp") };
+      case "batch_create":
+        return {
+          elements: this.service.createElements(boardId, data.elements, "mcp"),
+        };
+      case "update": {
+        const { id, expectedVersion, ...changes } = data;
+        return {
+          element: this.service.updateElement(
+            boardId,
+            id,
+            changes,
+            expectedVersion,
+            "mcp"
+          ),
+        };
+      }
+      case "delete":
+        return this.service.deleteElements(
+          boardId,
+          data.ids,
+          { cascade: data.cascade, expectedVersions: data.expectedVersions },
+          "mcp"
+        );
+    }
+  }
+}
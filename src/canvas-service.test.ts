@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { CanvasService, ConflictError } from "./canvas-service.js";
+import {
+  ArrowLineMarkerType,
+  ArrowLineShapes,
+  GeometryShapes,
+  ServerArrowLineElement,
+  ServerElement,
+} from "./plait-types.js";
+
+async function canvas(): Promise<CanvasService> {
+  const service = new CanvasService({
+    storageType: "memory",
+    storagePath: "",
+    defaultBoardId: "default",
+  });
+  await service.load();
+  return service;
+}
+
+const rectangle = {
+  id: "r1",
+  type: "geometry",
+  shape: GeometryShapes.rectangle,
+  points: [
+    [0, 0],
+    [100, 60],
+  ],
+} as ServerElement;
+
+// An arrow-line from the right of r1 to the left of r2, its points unrouted
+const arrowLine = {
+  id: "a1",
+  type: "arrow-line",
+  shape: ArrowLineShapes.elbow,
+  points: [
+    [0, 0],
+    [1, 1],
+  ],
+  texts: [],
+  source: {
+    boundId: "r1",
+    connection: [1, 0.5],
+    marker: ArrowLineMarkerType.none,
+  },
+  target: {
+    boundId: "r2",
+    connection: [0, 0.5],
+    marker: ArrowLineMarkerType.arrow,
+  },
+} as ServerElement;
+
+const below = {
+  ...rectangle,
+  id: "r2",
+  points: [
+    [200, 100],
+    [300, 160],
+  ],
+} as ServerElement;
+
+test("replaying the create of a bound arrow-line returns it", async () => {
+  const service = await canvas();
+  service.createElements("default", [rectangle, below], "api");
+  const created = service.createElement("default", arrowLine, "api");
+  assert.notDeepEqual(
+    (created as ServerArrowLineElement).points,
+    (arrowLine as ServerArrowLineElement).points
+  );
+
+  assert.equal(service.createElement("default", arrowLine, "api"), created);
+  assert.throws(
+    () =>
+      service.createElement(
+        "default",
+        { ...arrowLine, strokeColor: "#ff0000" },
+        "api"
+      ),
+    ConflictError
+  );
+});
+
+test("replaying a batch that was stored returns it", async () => {
+  const service = await canvas();
+  const batch = [rectangle, below, arrowLine];
+  const created = service.createElements("default", batch, "api");
+
+  assert.deepEqual(service.createElements("default", batch, "api"), created);
+  assert.equal(service.listElements("default").length, 3);
+  assert.throws(() =>
+    service.createElements(
+      "default",
+      [rectangle, { ...below, strokeColor: "#ff0000" }],
+      "api"
+    )
+  );
+});
+
+test("elements drawn in the browser can still be updated", async () => {
+  const service = await canvas();
+  service.applyOperations(
+    "default",
+    [
+      {
+        op: "create",
+        element: {
+          ...rectangle,
+          shape: "roundRectangle",
+        } as unknown as ServerElement,
+      },
+      {
+        op: "create",
+        element: {
+          ...arrowLine,
+          source: { marker: ArrowLineMarkerType.none },
+          target: {
+            boundId: "r1",
+            connection: [1, 0.4],
+            marker: ArrowLineMarkerType.arrow,
+          },
+        } as ServerElement,
+      },
+    ],
+    "frontend",
+    () => "draw"
+  );
+
+  service.updateElement("default", "r1", { strokeColor: "#ff0000" }, 1, "api");
+  service.updateElement("default", "a1", { strokeColor: "#ff0000" }, 1, "api");
+  assert.equal(service.getElement("default", "a1").strokeColor, "#ff0000");
+  assert.throws(() =>
+    service.updateElement(
+      "default",
+      "r1",
+      { points: [[0, 0]] } as any,
+      2,
+      "api"
+    )
+  );
+});
+
+test("undo and redo keep raising the version", async () => {
+  const service = await canvas();
+  const version = () => service.getElement("default", "r1").version;
+  service.createElement("default", rectangle, "api");
+  service.updateElement("default", "r1", { strokeColor: "#ff0000" }, 1, "api");
+  assert.equal(version(), 2);
+  service.history("default", "undo", undefined);
+  assert.equal(version(), 3);
+  service.history("default", "redo", undefined);
+  assert.equal(version(), 4);
+
+  service.deleteElements("default", ["r1"], {}, "api");
+  service.history("default", "undo", undefined);
+  assert.equal(version(), 5);
+});
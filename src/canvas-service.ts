@@ -0,0 +1,937 @@
+import logger from "./utils/logger.js";
+import { Board, BoardRegistry, BoardRegistryOptions } from "./boards.js";
+import {
+  ElementQuery,
+  getElementBounds,
+  queryElements,
+  unionBounds,
+} from "./query.js";
+import { ElementStore } from "./storage/index.js";
+import {
+  diffElements,
+  ElementDiff,
+  Snapshot,
+  SnapshotInfo,
+} from "./snapshots.js";
+import { PresenceSender, PresenceTracker } from "./presence.js";
+import {
+  ElementChange,
+  HistoryConflictError,
+  HistorySummary,
+  OperationOrigin,
+  sameContent,
+  summarizeEntry,
+} from "./history.js";
+import {
+  BoardDeletedMessage,
+  BoardInfo,
+  BoardReloadedMessage,
+  ElementConflict,
+  ElementCreatedMessage,
+  ElementDeletedMessage,
+  ElementOperation,
+  ElementsBatchCreatedMessage,
+  ElementUpdatedMessage,
+  generateId,
+  RejectedOperation,
+  ServerArrowLineElement,
+  ServerElement,
+  WebSocketMessage,
+} from "./plait-types.js";
+import {
+  validateBrowserElement,
+  validateElement,
+  validateElementsBatch,
+  validateUpdatedElement,
+} from "./schemas.js";
+import { dependentArrowLines, routeArrowLine } from "./routing.js";
+
+// A board, element or snapshot that does not exist
+export class NotFoundError extends Error {}
+
+// A request that can not be carried out as it was made
+export class InvalidRequestError extends Error {}
+
+// The write clashes with what is stored, such as a snapshot name in use
+export class ConflictError extends Error {}
+
+// Writes based on element versions that are no longer the stored ones
+export class VersionConflictError extends ConflictError {
+  constructor(readonly conflicts: ElementConflict[]) {
+    super(
+      conflicts
+        .map(({ element, expectedVersion }) =>
+          versionConflict(element, expectedVersion)
+        )
+        .join("\n")
+    );
+  }
+}
+
+// The error of a write based on another version of the element than the
+// stored one, null when there is no expected version or it matches. Elements
+// stored before versions were kept count as version 0.
+export function versionConflict(
+  element: ServerElement,
+  expectedVersion: number | undefined
+): string | null {
+  const version = element.version ?? 0;
+  if (expectedVersion === undefined || version === expectedVersion) {
+    return null;
+  }
+  return `Element ${element.id} is at version ${version}, not ${expectedVersion}: it was changed since it was read. Read it again and retry`;
+}
+
+export interface DeleteOptions {
+  // Also delete the arrow lines bound to deleted elements
+  cascade?: boolean;
+  // Versions the deletes are based on, by element id
+  expectedVersions?: Record<string, number>;
+}
+
+export interface DeleteSummary {
+  deletedIds: string[];
+  detachedIds: string[];
+}
+
+export interface OperationsResult {
+  changes: ElementChange[];
+  rejected: RejectedOperation[];
+}
+
+export interface HistoryResult {
+  entries: HistorySummary[];
+  // Why undo or redo stopped before taking every step
+  stopped?: string;
+}
+
+export interface RestoreResult {
+  snapshot: SnapshotInfo;
+  elements: ServerElement[];
+}
+
+interface DeleteResult {
+  deletedIds: string[];
+  detached: ServerElement[];
+  // Every removed or detached element, for the undo history
+  changes: ElementChange[];
+}
+
+// Remove elements from the store. Arrow-lines bound to a removed element are
+// either deleted as well (cascade) or detached from it.
+function removeElements(
+  elements: ElementStore,
+  ids: string[],
+  cascade: boolean
+): DeleteResult {
+  const deleted = new Set(ids.filter((id) => elements.has(id)));
+
+  if (cascade) {
+    elements.forEach((element) => {
+      if (
+        element.type === "arrow-line" &&
+        ((element.source?.boundId && deleted.has(element.source.boundId)) ||
+          (element.target?.boundId && deleted.has(element.target.boundId)))
+      ) {
+        deleted.add(element.id);
+      }
+    });
+  }
+
+  const changes: ElementChange[] = [];
+  deleted.forEach((id) => {
+    changes.push({ id, before: elements.get(id)!, after: null });
+    elements.delete(id);
+  });
+
+  const detached: ServerElement[] = [];
+  elements.forEach((element) => {
+    if (element.type !== "arrow-line") return;
+    const detachSource =
+      !!element.source?.boundId && deleted.has(element.source.boundId);
+    const detachTarget =
+      !!element.target?.boundId && deleted.has(element.target.boundId);
+    if (!detachSource && !detachTarget) return;
+
+    // Keep the arrow where it is, only drop the binding
+    const updated: ServerElement = {
+      ...element,
+      source: detachSource
+        ? { marker: element.source!.marker }
+        : element.source,
+      target: detachTarget
+        ? { marker: element.target!.marker }
+        : element.target,
+      version: (element.version ?? 0) + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    elements.set(element.id, updated);
+    detached.push(updated);
+    changes.push({ id: element.id, before: element, after: updated });
+  });
+
+  return { deletedIds: Array.from(deleted), detached, changes };
+}
+
+/**
+ * Boards and everything that can be done to them, shared by the canvas
+ * server's routes and the MCP tools of an embedded canvas. Every write is
+ * validated, versioned, recorded in the board's history and sent to the
+ * listeners, which pass it on to the clients of the board.
+ */
+export class CanvasService {
+  readonly boards: BoardRegistry;
+  readonly presence: PresenceTracker;
+  private readonly listeners: PresenceSender[] = [];
+
+  constructor(options: BoardRegistryOptions) {
+    this.boards = new BoardRegistry(options);
+    this.presence = new PresenceTracker((boardId, message, exceptClientId) =>
+      this.send(boardId, message, exceptClientId)
+    );
+  }
+
+  // Restore stored boards, before anything else is done with them
+  load(): Promise<void> {
+    return this.boards.load();
+  }
+
+  close(): Promise<void> {
+    return this.boards.close();
+  }
+
+  // Be told of every change, to pass it on to the clients of its board
+  onMessage(listener: PresenceSender): void {
+    this.listeners.push(listener);
+  }
+
+  board(boardId: string): Board {
+    const board = this.boards.get(boardId);
+    if (!board) {
+      throw new NotFoundError(`Board ${boardId} not found`);
+    }
+    return board;
+  }
+
+  listElements(boardId: string): ServerElement[] {
+    return Array.from(this.board(boardId).elements.values());
+  }
+
+  getElement(boardId: string, id: string): ServerElement {
+    const element = this.board(boardId).elements.get(id);
+    if (!element) {
+      throw new NotFoundError(`Element with ID ${id} not found`);
+    }
+    return element;
+  }
+
+  // Elements matching the query and having every other field as given
+  searchElements(
+    boardId: string,
+    query: ElementQuery,
+    fields: Record<string, string> = {}
+  ): ServerElement[] {
+    return queryElements(this.listElements(boardId), query).filter((element) =>
+      Object.entries(fields).every(
+        ([key, value]) => (element as any)[key] === value
+      )
+    );
+  }
+
+  createElement(
+    boardId: string,
+    params: Partial<ServerElement>,
+    origin: OperationOrigin
+  ): ServerElement {
+    const board = this.board(boardId);
+    // Prioritize passed ID (for MCP sync), otherwise generate new ID
+    const id = params.id || generateId();
+    const element = validateElement({ ...params, id, version: 1 }, (boundId) =>
+      board.elements.get(boundId)
+    );
+    // Creating it again is harmless, e.g. a replayed create that did arrive;
+    // anything else would overwrite a version someone may have changed
+    const existing = board.elements.get(id);
+    if (existing) {
+      if (sameContent(existing, this.routed(board, element))) return existing;
+      throw new ConflictError(
+        `Element ${id} already exists, update it with its version instead`
+      );
+    }
+
+    board.elements.set(id, element);
+    const changes: ElementChange[] = [{ id, before: null, after: element }];
+    const routed = this.routeArrowLines(board, changes);
+    this.recordHistory(board, origin, `create ${element.type}`, changes);
+
+    const message: ElementCreatedMessage = {
+      type: "element_created",
+      element: board.elements.get(id)!,
+    };
+    this.send(board.id, message);
+    this.sendUpdated(
+      board,
+      routed.filter((arrowLine) => arrowLine.id !== id)
+    );
+    return message.element;
+  }
+
+  // Create elements all at once, nothing is stored when one is invalid
+  createElements(
+    boardId: string,
+    batch: Partial<ServerElement>[],
+    origin: OperationOrigin,
+    label?: string
+  ): ServerElement[] {
+    const board = this.board(boardId);
+    if (!Array.isArray(batch) || batch.length === 0) {
+      throw new InvalidRequestError(
+        "Expected elements to be a non-empty array"
+      );
+    }
+
+    // A replayed batch that did arrive is harmless, as in createElement
+    const stored = batch.map((params) =>
+      params?.id ? board.elements.get(params.id) : undefined
+    );
+    if (stored.every((existing) => existing)) {
+      const replayed = stored.every((existing, index) =>
+        sameContent(
+          existing!,
+          this.routed(
+            board,
+            validateElement({ ...batch[index], version: 1 }, (boundId) =>
+              board.elements.get(boundId)
+            )
+          )
+        )
+      );
+      if (replayed) return stored as ServerElement[];
+    }
+
+    const elements = validateElementsBatch(batch, (id) =>
+      board.elements.get(id)
+    ).map((element) => ({ ...element, version: 1 }));
+
+    elements.forEach((element) => board.elements.set(element.id, element));
+    const changes: ElementChange[] = elements.map((element) => ({
+      id: element.id,
+      before: null,
+      after: element,
+    }));
+    const routed = this.routeArrowLines(board, changes);
+    this.recordHistory(
+      board,
+      origin,
+      label ?? `create ${elements.length} elements`,
+      changes
+    );
+
+    // Broadcast the whole batch as one message
+    const created = new Set(elements.map((element) => element.id));
+    const message: ElementsBatchCreatedMessage = {
+      type: "elements_batch_created",
+      elements: elements.map((element) => board.elements.get(element.id)!),
+    };
+    this.send(board.id, message);
+    this.sendUpdated(
+      board,
+      routed.filter((arrowLine) => !created.has(arrowLine.id))
+    );
+    return message.elements;
+  }
+
+  // Merge changes into an element; its id and type can not change
+  updateElement(
+    boardId: string,
+    id: string,
+    changes: Partial<ServerElement>,
+    expectedVersion: number | undefined,
+    origin: OperationOrigin
+  ): ServerElement {
+    const board = this.board(boardId);
+    const existing = this.getElement(boardId, id);
+    this.checkVersions(board, { [id]: expectedVersion });
+
+    const element = validateUpdatedElement(
+      existing,
+      {
+        ...existing,
+        ...changes,
+        id: existing.id,
+        type: existing.type,
+        version: (existing.version ?? 0) + 1,
+        updatedAt: new Date().toISOString(),
+      },
+      (boundId) => board.elements.get(boundId)
+    );
+
+    board.elements.set(id, element);
+    const written: ElementChange[] = [{ id, before: existing, after: element }];
+    const routed = this.routeArrowLines(board, written);
+    this.recordHistory(board, origin, `update ${id}`, written);
+
+    // The arrow-lines bound to a moved shape follow it
+    this.sendUpdated(board, [
+      board.elements.get(id)!,
+      ...routed.filter((arrowLine) => arrowLine.id !== id),
+    ]);
+    return board.elements.get(id)!;
+  }
+
+  // Delete the listed elements, or every element when none are listed. A
+  // stale expected version deletes nothing, not even the other elements.
+  deleteElements(
+    boardId: string,
+    ids: string[] | undefined,
+    options: DeleteOptions,
+    origin: OperationOrigin
+  ): DeleteSummary {
+    const board = this.board(boardId);
+    this.checkVersions(board, options.expectedVersions ?? {});
+
+    const result = removeElements(
+      board.elements,
+      ids ?? Array.from(board.elements.keys()),
+      !!options.cascade
+    );
+    this.recordHistory(
+      board,
+      origin,
+      ids === undefined
+        ? "clear the board"
+        : ids.length === 1
+          ? `delete ${ids[0]}`
+          : `delete ${result.deletedIds.length} elements`,
+      result.changes
+    );
+
+    if (result.deletedIds.length > 0) {
+      const message: ElementDeletedMessage = {
+        type: "element_deleted",
+        elementIds: result.deletedIds,
+      };
+      this.send(board.id, message);
+    }
+    result.detached.forEach((element) => {
+      const message: ElementUpdatedMessage = {
+        type: "element_updated",
+        element: element,
+      };
+      this.send(board.id, message);
+    });
+
+    return {
+      deletedIds: result.deletedIds,
+      detachedIds: result.detached.map((element) => element.id),
+    };
+  }
+
+  /**
+   * Apply element operations one by one and record them as one history
+   * entry, labelled by the number of changed elements. The operations come
+   * from the browser, so elements are only checked for their structure; an
+   * invalid operation is rejected without stopping the others.
+   * Creates and updates come first so arrow-lines can bind to elements
+   * created by the same operations, deletes come last. Changes are sent to
+   * every client except the sender's.
+   */
+  applyOperations(
+    boardId: string,
+    operations: ElementOperation[],
+    origin: OperationOrigin,
+    label: (changed: number) => string,
+    senderId?: string
+  ): OperationsResult {
+    const board = this.board(boardId);
+    const changes: ElementChange[] = [];
+    const rejected: RejectedOperation[] = [];
+    const writes = operations.filter(
+      (operation) => operation.op !== "delete"
+    ) as Exclude<ElementOperation, { op: "delete" }>[];
+    const pending = new Map(
+      writes
+        .filter(({ element }) => typeof element?.id === "string")
+        .map(({ element }) => [element.id, element])
+    );
+    const find = (id: string) => pending.get(id) || board.elements.get(id);
+
+    // A stale operation is rejected with the element as it is stored now
+    const isStale = (id: string, baseVersion: number | undefined): boolean => {
+      const existing = board.elements.get(id);
+      if (!existing || !versionConflict(existing, baseVersion)) return false;
+      rejected.push({
+        id,
+        error: versionConflict(existing, baseVersion)!,
+        element: existing,
+      });
+      return true;
+    };
+
+    const now = new Date().toISOString();
+    const created: string[] = [];
+    const updated: string[] = [];
+    writes.forEach((operation) => {
+      const input = operation.element;
+      const id = typeof input?.id === "string" ? input.id : "";
+      const existing = board.elements.get(id);
+      if (existing && sameContent(existing, input)) return;
+      if (operation.op === "update" && isStale(id, operation.baseVersion)) {
+        return;
+      }
+      // Someone else created it first, or the sender missed it; either way
+      // it is not based on the stored version
+      if (operation.op === "create" && existing) {
+        rejected.push({
+          id,
+          error: `Element ${id} already exists`,
+          element: existing,
+        });
+        return;
+      }
+      try {
+        const element = validateBrowserElement(
+          {
+            ...input,
+            version: (existing?.version ?? 0) + 1,
+            updatedAt: now,
+          },
+          find
+        );
+        board.elements.set(id, element);
+        changes.push({ id, before: existing ?? null, after: element });
+        (existing ? updated : created).push(id);
+      } catch (error) {
+        // The sender drew it already, it restores the stored one or drops it
+        rejected.push({
+          id,
+          error: (error as Error).message,
+          ...(existing ? { element: existing } : {}),
+        });
+      }
+    });
+
+    const routed = this.routeArrowLines(board, changes);
+    updated.forEach((id) => {
+      const message: ElementUpdatedMessage = {
+        type: "element_updated",
+        element: board.elements.get(id)!,
+      };
+      this.send(board.id, message, senderId);
+    });
+    if (created.length > 0) {
+      const message: ElementsBatchCreatedMessage = {
+        type: "elements_batch_created",
+        elements: created.map((id) => board.elements.get(id)!),
+      };
+      this.send(board.id, message, senderId);
+    }
+    // Rerouted arrow-lines go to the sender as well, its own included, since
+    // it drew them with the old points
+    this.sendUpdated(board, routed);
+
+    const deleteIds = operations.flatMap((operation) =>
+      operation.op === "delete" && !isStale(operation.id, operation.baseVersion)
+        ? [operation.id]
+        : []
+    );
+    if (deleteIds.length > 0) {
+      const result = removeElements(board.elements, deleteIds, false);
+      changes.push(...result.changes);
+      if (result.deletedIds.length > 0) {
+        const message: ElementDeletedMessage = {
+          type: "element_deleted",
+          elementIds: result.deletedIds,
+        };
+        this.send(board.id, message, senderId);
+      }
+      // The sender still has the arrows bound to what it deleted
+      result.detached.forEach((element) => {
+        const message: ElementUpdatedMessage = {
+          type: "element_updated",
+          element,
+        };
+        this.send(board.id, message);
+      });
+    }
+
+    this.recordHistory(board, origin, label(changes.length), changes);
+    return { changes, rejected };
+  }
+
+  // Undo or redo up to `steps` operations, of one origin or of any
+  history(
+    boardId: string,
+    direction: "undo" | "redo",
+    origin: OperationOrigin | undefined,
+    steps = 1
+  ): HistoryResult {
+    const board = this.board(boardId);
+    const entries: HistorySummary[] = [];
+    let stopped: string | undefined;
+    for (let step = 0; step < steps; step++) {
+      try {
+        const entry = board.history[direction](origin, (changes) =>
+          this.applyHistoryChanges(board, changes)
+        );
+        if (!entry) break;
+        entries.push(summarizeEntry(entry));
+      } catch (error) {
+        if (!(error instanceof HistoryConflictError)) throw error;
+        stopped = error.message;
+        break;
+      }
+    }
+    if (entries.length > 0) {
+      logger.info(`${direction} ${entries.length} operations`, {
+        board: board.id,
+        origin: origin || "any",
+      });
+    }
+    return { entries, ...(stopped && { stopped }) };
+  }
+
+  // Snapshots are named by id or by name
+  getSnapshot(boardId: string, idOrName: string): Snapshot {
+    const snapshot = this.board(boardId).snapshots.get(idOrName);
+    if (!snapshot) {
+      throw new NotFoundError(`Snapshot ${idOrName} not found`);
+    }
+    return snapshot;
+  }
+
+  // Save the current elements under a name
+  saveSnapshot(boardId: string, name: string): SnapshotInfo {
+    const board = this.board(boardId);
+    if (board.snapshots.get(name)) {
+      throw new ConflictError(`Snapshot ${name} already exists`);
+    }
+    const { elements, ...snapshot } = board.snapshots.save(
+      name,
+      Array.from(board.elements.values())
+    );
+    logger.info(`Saved snapshot ${name} of board ${board.id}`, {
+      count: elements.length,
+    });
+    return snapshot;
+  }
+
+  // Added, removed and modified elements between two snapshots, "current"
+  // names the board as it is now
+  diffSnapshots(boardId: string, from: string, to: string): ElementDiff {
+    const resolve = (idOrName: string) =>
+      idOrName === "current"
+        ? this.listElements(boardId)
+        : this.getSnapshot(boardId, idOrName).elements;
+    return diffElements(resolve(from), resolve(to));
+  }
+
+  // Replace the board's elements with a snapshot, as one undoable operation
+  restoreSnapshot(
+    boardId: string,
+    idOrName: string,
+    origin: OperationOrigin
+  ): RestoreResult {
+    const board = this.board(boardId);
+    const snapshot = this.getSnapshot(boardId, idOrName);
+
+    const now = new Date().toISOString();
+    const previous = new Map(
+      Array.from(board.elements.values()).map((element) => [
+        element.id,
+        element,
+      ])
+    );
+    const restored = (
+      JSON.parse(JSON.stringify(snapshot.elements)) as ServerElement[]
+    ).map((element) => ({
+      ...element,
+      version: (previous.get(element.id)?.version ?? element.version ?? 0) + 1,
+      updatedAt: now,
+    }));
+
+    board.elements.clear();
+    restored.forEach((element) => board.elements.set(element.id, element));
+
+    const changes: ElementChange[] = Array.from(previous.values())
+      .filter((element) => !board.elements.has(element.id))
+      .map((element) => ({ id: element.id, before: element, after: null }));
+    restored.forEach((element) =>
+      changes.push({
+        id: element.id,
+        before: previous.get(element.id) ?? null,
+        after: element,
+      })
+    );
+    this.recordHistory(
+      board,
+      origin,
+      `restore snapshot ${snapshot.name}`,
+      changes
+    );
+    logger.info(`Restored snapshot ${snapshot.name} of board ${board.id}`, {
+      count: restored.length,
+    });
+
+    const message: BoardReloadedMessage = {
+      type: "board_reloaded",
+      boardId: board.id,
+      elements: restored,
+    };
+    this.send(board.id, message);
+
+    const { elements: _elements, ...info } = snapshot;
+    return { snapshot: info, elements: restored };
+  }
+
+  deleteSnapshot(boardId: string, idOrName: string): string {
+    const snapshot = this.getSnapshot(boardId, idOrName);
+    this.board(boardId).snapshots.delete(snapshot.id);
+    return snapshot.id;
+  }
+
+  async createBoard(id: string | undefined, name?: string): Promise<BoardInfo> {
+    const board = await this.boards.create(id || generateId(), name);
+    logger.info(`Created board ${board.id}`);
+    return this.boards.info(board);
+  }
+
+  renameBoard(boardId: string, name: string): BoardInfo {
+    this.board(boardId);
+    if (!name || typeof name !== "string") {
+      throw new InvalidRequestError("Board name is required");
+    }
+    return this.boards.info(this.boards.rename(boardId, name));
+  }
+
+  // Delete a board; its clients are told, closing them is up to the server
+  async deleteBoard(boardId: string): Promise<void> {
+    this.board(boardId);
+    await this.boards.delete(boardId);
+
+    const message: BoardDeletedMessage = {
+      type: "board_deleted",
+      boardId,
+    };
+    this.send(boardId, message);
+    this.presence.clearBoard(boardId);
+    logger.info(`Deleted board ${boardId}`);
+  }
+
+  private send(
+    boardId: string,
+    message: WebSocketMessage,
+    exceptClientId?: string
+  ): void {
+    this.listeners.forEach((listener) =>
+      listener(boardId, message, exceptClientId)
+    );
+  }
+
+  private sendUpdated(board: Board, elements: ServerElement[]): void {
+    elements.forEach((element) => {
+      const message: ElementUpdatedMessage = {
+        type: "element_updated",
+        element,
+      };
+      this.send(board.id, message);
+    });
+  }
+
+  // The element as it would be stored, its points routed when it is a bound
+  // arrow-line, to compare with what a replayed create finds
+  private routed(board: Board, element: ServerElement): ServerElement {
+    if (element.type !== "arrow-line") return element;
+    const arrowLine = element as ServerArrowLineElement;
+    const points = routeArrowLine(
+      arrowLine,
+      (id) => board.elements.get(id),
+      Array.from(board.elements.values()).filter(
+        (shape) => shape.type === "geometry"
+      )
+    );
+    if (!points) return arrowLine;
+    const routed: ServerArrowLineElement = { ...arrowLine, points };
+    return routed;
+  }
+
+  /**
+   * Reroute the arrow-lines written by `changes` and those bound to the
+   * elements written, so their ends stay on the shapes they connect. An
+   * arrow-line written by the same changes keeps its new version and has
+   * its change updated, any other one gets a version and a change of its
+   * own. Returns the arrow-lines whose points changed.
+   */
+  private routeArrowLines(
+    board: Board,
+    changes: ElementChange[]
+  ): ServerElement[] {
+    const written = new Map(
+      changes.filter(({ after }) => after).map((change) => [change.id, change])
+    );
+    if (written.size === 0) return [];
+
+    const find = (id: string) => board.elements.get(id);
+    const shapes = Array.from(board.elements.values()).filter(
+      (element) => element.type === "geometry"
+    );
+    const now = new Date().toISOString();
+    return dependentArrowLines(
+      board.elements.values(),
+      new Set(written.keys())
+    ).flatMap((arrowLine) => {
+      const points = routeArrowLine(arrowLine, find, shapes);
+      if (
+        !points ||
+        JSON.stringify(points) === JSON.stringify(arrowLine.points)
+      ) {
+        return [];
+      }
+      const change = written.get(arrowLine.id);
+      const element: ServerArrowLineElement = change
+        ? { ...arrowLine, points }
+        : {
+            ...arrowLine,
+            points,
+            version: (arrowLine.version ?? 0) + 1,
+            updatedAt: now,
+          };
+      board.elements.set(element.id, element);
+      if (change) {
+        change.after = element;
+      } else {
+        changes.push({ id: element.id, before: arrowLine, after: element });
+      }
+      return [element];
+    });
+  }
+
+  private checkVersions(
+    board: Board,
+    expectedVersions: Record<string, number | undefined>
+  ): void {
+    const conflicts = Object.entries(expectedVersions).flatMap(
+      ([id, expectedVersion]) => {
+        const element = board.elements.get(id);
+        return element &&
+          expectedVersion !== undefined &&
+          versionConflict(element, expectedVersion)
+          ? [{ id, expectedVersion, element }]
+          : [];
+      }
+    );
+    if (conflicts.length > 0) {
+      throw new VersionConflictError(conflicts);
+    }
+  }
+
+  // Record a write in the board's undo history; agent writes also show the
+  // agent on the board
+  private recordHistory(
+    board: Board,
+    origin: OperationOrigin,
+    label: string,
+    changes: ElementChange[]
+  ): void {
+    board.history.record(origin, label, changes);
+    if (origin === "mcp" && changes.length > 0) {
+      this.showAgent(board, changes);
+    }
+  }
+
+  // Show the agent on the board, selecting what it wrote with its cursor at
+  // the centre of the elements it touched
+  private showAgent(board: Board, changes: ElementChange[]): void {
+    const bounds = unionBounds(
+      changes.flatMap(({ before, after }) => {
+        const rect = getElementBounds((after ?? before)!);
+        return rect ? [rect] : [];
+      })
+    );
+    this.presence.touchByAgent(
+      board.id,
+      changes.filter(({ after }) => after).map(({ id }) => id),
+      bounds
+        ? [bounds.x + bounds.width / 2, bounds.y + bounds.height / 2]
+        : null
+    );
+  }
+
+  // Write element states taken from the history and send them. Nothing is
+  // written unless every element is still as the operation left it.
+  private applyHistoryChanges(board: Board, changes: ElementChange[]): void {
+    changes.forEach(({ id, before }) => {
+      if (!sameContent(board.elements.get(id), before)) {
+        throw new HistoryConflictError(
+          `Element ${id} was changed by a later operation, undo or redo that first`
+        );
+      }
+    });
+
+    // Restored arrow lines must still find the elements they are bound to
+    const pending = new Map(changes.map(({ id, after }) => [id, after]));
+    const find = (id: string) =>
+      pending.has(id) ? (pending.get(id) ?? undefined) : board.elements.get(id);
+    changes.forEach(({ after }) => {
+      if (!after) return;
+      try {
+        validateBrowserElement(after, find);
+      } catch (error) {
+        throw new HistoryConflictError((error as Error).message);
+      }
+    });
+
+    const now = new Date().toISOString();
+    const created: ServerElement[] = [];
+    const deletedIds: string[] = [];
+    changes.forEach(({ id, before, after }) => {
+      if (!after) {
+        board.elements.delete(id);
+        deletedIds.push(id);
+        return;
+      }
+      const element: ServerElement = {
+        ...after,
+        // Past the stored version, or the restored one's when it was deleted,
+        // so versions never go back
+        version: (board.elements.get(id)?.version ?? after.version ?? 0) + 1,
+        updatedAt: now,
+      };
+      board.elements.set(id, element);
+      if (before) {
+        const message: ElementUpdatedMessage = {
+          type: "element_updated",
+          element,
+        };
+        this.send(board.id, message);
+      } else {
+        created.push(element);
+      }
+    });
+
+    if (deletedIds.length > 0) {
+      const message: ElementDeletedMessage = {
+        type: "element_deleted",
+        elementIds: deletedIds,
+      };
+      this.send(board.id, message);
+    }
+    if (created.length > 0) {
+      const message: ElementsBatchCreatedMessage = {
+        type: "elements_batch_created",
+        elements: created,
+      };
+      this.send(board.id, message);
+    }
+  }
+}
+
+// A service over the boards configured by STORAGE_TYPE, STORAGE_PATH and
+// DEFAULT_BOARD_ID, for the canvas server and the embedded canvas alike
+export function createCanvasService(): CanvasService {
+  return new CanvasService({
+    storageType: process.env.STORAGE_TYPE || "memory",
+    storagePath: process.env.STORAGE_PATH || "./data",
+    defaultBoardId: process.env.DEFAULT_BOARD_ID || "default",
+  });
+}
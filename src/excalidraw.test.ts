@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { plaitToExcalidraw } from "./excalidraw.js";
+import { ServerElement } from "./plait-types.js";
+
+function geometry(id: string, shape: string): ServerElement {
+  return {
+    id,
+    type: "geometry",
+    shape,
+    points: [
+      [0, 0],
+      [100, 60],
+    ],
+  } as unknown as ServerElement;
+}
+
+test("shapes without an Excalidraw counterpart become rectangles", () => {
+  const { elements } = plaitToExcalidraw([
+    geometry("rectangle", "rectangle"),
+    geometry("ellipse", "ellipse"),
+    geometry("diamond", "diamond"),
+    geometry("rounded", "roundRectangle"),
+    geometry("parallelogram", "parallelogram"),
+  ]);
+
+  assert.deepEqual(
+    elements.map(({ id, type, roundness }) => [id, type, roundness]),
+    [
+      ["rectangle", "rectangle", null],
+      ["ellipse", "ellipse", null],
+      ["diamond", "diamond", null],
+      ["rounded", "rectangle", { type: 3 }],
+      ["parallelogram", "rectangle", null],
+    ]
+  );
+});
@@ -0,0 +1,544 @@
+import {
+  ArrowLineMarkerType,
+  ArrowLineShapes,
+  FreehandShapes,
+  GeometryShapes,
+  generateId,
+  Point,
+  PointOfRectangle,
+  ServerArrowLineElement,
+  ServerElement,
+  ServerGeometryElement,
+  StrokeStyle,
+  TextAlign,
+} from "./plait-types.js";
+import {
+  ExcalidrawArrowElement,
+  ExcalidrawBinding,
+  ExcalidrawElement,
+  ExcalidrawElementBase,
+  ExcalidrawFile,
+  ExcalidrawFreedrawElement,
+  ExcalidrawLineElement,
+  ExcalidrawTextElement,
+} from "./types.js";
+import {
+  Bounds,
+  elementText,
+  getElementBounds,
+  plainText,
+  unionBounds,
+} from "./query.js";
+
+export interface ExcalidrawImportOptions {
+  // Move the imported scene so that its top left corner is here
+  origin?: Point;
+}
+
+export interface ExcalidrawImportResult {
+  elements: ServerElement[];
+  // Excalidraw types that have no Plait counterpart, with their counts
+  skipped: Record<string, number>;
+}
+
+const SHAPES: Record<string, GeometryShapes> = {
+  rectangle: GeometryShapes.rectangle,
+  ellipse: GeometryShapes.ellipse,
+  diamond: GeometryShapes.diamond,
+};
+
+const STROKE_STYLES: Record<string, StrokeStyle> = {
+  solid: StrokeStyle.solid,
+  dashed: StrokeStyle.dashed,
+  dotted: StrokeStyle.dotted,
+};
+
+// Plait connection points: the corners and the middle of every side
+const CONNECTIONS: PointOfRectangle[] = [
+  [0, 0],
+  [0.5, 0],
+  [1, 0],
+  [0, 0.5],
+  [1, 0.5],
+  [0, 1],
+  [0.5, 1],
+  [1, 1],
+];
+
+const FONT_SIZE = 20;
+const LINE_HEIGHT = 1.25;
+const BINDING_GAP = 4;
+
+/**
+ * Elements of a .excalidraw file, of the clipboard format, or a bare
+ * element array
+ */
+export function parseExcalidrawScene(data: unknown): ExcalidrawElement[] {
+  const scene = typeof data === "string" ? JSON.parse(data) : data;
+  const elements = Array.isArray(scene)
+    ? scene
+    : (scene as { elements?: unknown } | null)?.elements;
+  if (!Array.isArray(elements)) {
+    throw new Error("Not an Excalidraw scene: elements array is missing");
+  }
+  return elements as ExcalidrawElement[];
+}
+
+// Excalidraw arrowheads that Plait can not draw fall back to a plain arrow
+function toMarker(arrowhead: string | null | undefined): ArrowLineMarkerType {
+  switch (arrowhead) {
+    case null:
+    case undefined:
+      return ArrowLineMarkerType.none;
+    case "triangle":
+      return ArrowLineMarkerType.solidTriangle;
+    case "triangle_outline":
+      return ArrowLineMarkerType.hollowTriangle;
+    case "bar":
+      return ArrowLineMarkerType.singleSlash;
+    default:
+      return ArrowLineMarkerType.arrow;
+  }
+}
+
+function toArrowhead(marker: ArrowLineMarkerType | undefined): string | null {
+  switch (marker) {
+    case undefined:
+    case ArrowLineMarkerType.none:
+      return null;
+    case ArrowLineMarkerType.solidTriangle:
+      return "triangle";
+    case ArrowLineMarkerType.hollowTriangle:
+      return "triangle_outline";
+    case ArrowLineMarkerType.singleSlash:
+      return "bar";
+    default:
+      return "arrow";
+  }
+}
+
+function styleOf(element: ExcalidrawElementBase) {
+  const strokeStyle = STROKE_STYLES[element.strokeStyle || ""];
+  return {
+    ...(element.strokeColor && { strokeColor: element.strokeColor }),
+    ...(element.strokeWidth && { strokeWidth: element.strokeWidth }),
+    ...(strokeStyle && strokeStyle !== StrokeStyle.solid && { strokeStyle }),
+  };
+}
+
+function boxOf(element: ExcalidrawElementBase): [Point, Point] {
+  const width = element.width || 0;
+  const height = element.height || 0;
+  return [
+    [
+      Math.min(element.x, element.x + width),
+      Math.min(element.y, element.y + height),
+    ],
+    [
+      Math.max(element.x, element.x + width),
+      Math.max(element.y, element.y + height),
+    ],
+  ];
+}
+
+// The Plait connection point nearest to where the Excalidraw arrow ends
+function nearestConnection(
+  box: [Point, Point],
+  point: Point
+): PointOfRectangle {
+  const [[x1, y1], [x2, y2]] = box;
+  const distance = ([cx, cy]: PointOfRectangle) =>
+    Math.hypot(x1 + (x2 - x1) * cx - point[0], y1 + (y2 - y1) * cy - point[1]);
+  return CONNECTIONS.reduce((best, connection) =>
+    distance(connection) < distance(best) ? connection : best
+  );
+}
+
+/**
+ * Convert Excalidraw elements to Plait elements with fresh ids. Shapes with
+ * a bound text become geometries with that text, free text becomes a text
+ * geometry, arrows and lines become arrow lines whose startBinding and
+ * endBinding are kept as source and target boundIds, freedraw becomes a
+ * freehand stroke. Rotation, roughness and groups are dropped.
+ */
+export function excalidrawToPlait(
+  scene: ExcalidrawElement[],
+  options: ExcalidrawImportOptions = {}
+): ExcalidrawImportResult {
+  const live = scene.filter((element) => !element.isDeleted);
+  const ids = new Map(live.map((element) => [element.id, generateId()]));
+  const skipped: Record<string, number> = {};
+
+  // Texts bound to a shape or an arrow are drawn by their container
+  const containedTexts = new Map<string, string>();
+  live.forEach((element) => {
+    if (element.type === "text" && element.containerId) {
+      containedTexts.set(element.containerId, element.text);
+    }
+  });
+  const isContained = (element: ExcalidrawElement) =>
+    element.type === "text" &&
+    !!element.containerId &&
+    live.some((container) => container.id === element.containerId);
+
+  const boxes = new Map<string, [Point, Point]>();
+  live.forEach((element) => {
+    if (SHAPES[element.type]) boxes.set(element.id, boxOf(element));
+  });
+
+  const handle = (
+    binding: ExcalidrawBinding | null | undefined,
+    point: Point,
+    marker: ArrowLineMarkerType
+  ) => {
+    const box = binding && boxes.get(binding.elementId);
+    return box
+      ? {
+          boundId: ids.get(binding.elementId)!,
+          connection: nearestConnection(box, point),
+          marker,
+        }
+      : { marker };
+  };
+
+  const elements = live.flatMap((element): ServerElement[] => {
+    const id = ids.get(element.id)!;
+    const shape = SHAPES[element.type];
+
+    if (shape) {
+      const text = containedTexts.get(element.id);
+      const fill =
+        element.backgroundColor && element.backgroundColor !== "transparent"
+          ? element.backgroundColor
+          : undefined;
+      const geometry: ServerGeometryElement = {
+        id,
+        type: "geometry",
+        shape,
+        points: boxOf(element),
+        ...(text && { text, textAlign: TextAlign.center }),
+        ...(fill && { fill }),
+        ...styleOf(element),
+      };
+      return [geometry];
+    }
+
+    switch (element.type) {
+      case "text": {
+        if (isContained(element)) return [];
+        const text = element as ExcalidrawTextElement;
+        const geometry: ServerGeometryElement = {
+          id,
+          type: "geometry",
+          shape: GeometryShapes.text,
+          points: boxOf(text),
+          text: text.text,
+          textAlign:
+            text.textAlign === "center" || text.textAlign === "right"
+              ? (text.textAlign as TextAlign)
+              : TextAlign.left,
+          autoSize: true,
+          ...(text.strokeColor && { strokeColor: text.strokeColor }),
+        };
+        return [geometry];
+      }
+
+      case "arrow":
+      case "line": {
+        const line = element as ExcalidrawArrowElement | ExcalidrawLineElement;
+        const points = line.points.map(([x, y]): Point => [
+          line.x + x,
+          line.y + y,
+        ]);
+        if (points.length < 2) {
+          skipped[element.type] = (skipped[element.type] || 0) + 1;
+          return [];
+        }
+        const arrow = line.type === "arrow" ? line : null;
+        const label = containedTexts.get(element.id);
+        const arrowLine: ServerArrowLineElement = {
+          id,
+          type: "arrow-line",
+          shape: arrow?.elbowed
+            ? ArrowLineShapes.elbow
+            : line.roundness
+              ? ArrowLineShapes.curve
+              : ArrowLineShapes.straight,
+          points,
+          texts: label ? [{ text: label, position: 0.5 }] : [],
+          source: handle(
+            line.startBinding,
+            points[0]!,
+            toMarker(arrow?.startArrowhead)
+          ),
+          target: handle(
+            line.endBinding,
+            points[points.length - 1]!,
+            // Arrows point forward unless the file says otherwise
+            arrow
+              ? toMarker(
+                  arrow.endArrowhead === undefined
+                    ? "arrow"
+                    : arrow.endArrowhead
+                )
+              : ArrowLineMarkerType.none
+          ),
+          ...styleOf(element),
+        };
+        return [arrowLine];
+      }
+
+      case "freedraw": {
+        const freedraw = element as ExcalidrawFreedrawElement;
+        if (freedraw.points.length < 2) {
+          skipped.freedraw = (skipped.freedraw || 0) + 1;
+          return [];
+        }
+        const freehand = {
+          id,
+          type: "freehand",
+          shape: FreehandShapes.feltTipPen,
+          points: freedraw.points.map(([x, y]): Point => [
+            freedraw.x + x,
+            freedraw.y + y,
+          ]),
+          ...styleOf(element),
+        };
+        return [freehand as unknown as ServerElement];
+      }
+
+      default:
+        skipped[element.type] = (skipped[element.type] || 0) + 1;
+        return [];
+    }
+  });
+
+  const bounds = unionBounds(
+    elements
+      .map(getElementBounds)
+      .filter((rect): rect is Bounds => rect !== null)
+  );
+  if (options.origin && bounds) {
+    const dx = options.origin[0] - bounds.x;
+    const dy = options.origin[1] - bounds.y;
+    elements.forEach((element) => {
+      const moved = element as ServerElement & { points: Point[] };
+      moved.points = moved.points.map(([x, y]): Point => [x + dx, y + dy]);
+    });
+  }
+
+  return { elements, skipped };
+}
+
+// Properties Excalidraw expects on every element
+function baseProperties(
+  id: string,
+  type: ExcalidrawElement["type"],
+  [[x1, y1], [x2, y2]]: [Point, Point],
+  style: Pick<ServerElement, "strokeColor" | "strokeWidth" | "strokeStyle">
+): ExcalidrawElementBase {
+  return {
+    id,
+    type,
+    x: x1,
+    y: y1,
+    width: x2 - x1,
+    height: y2 - y1,
+    angle: 0,
+    strokeColor: style.strokeColor || "#1e1e1e",
+    backgroundColor: "transparent",
+    fillStyle: "solid",
+    strokeWidth: style.strokeWidth || 2,
+    strokeStyle: style.strokeStyle || StrokeStyle.solid,
+    roughness: 1,
+    opacity: 100,
+    groupIds: [],
+    frameId: null,
+    roundness: null,
+    seed: Math.floor(Math.random() * 2 ** 31),
+    version: 1,
+    versionNonce: Math.floor(Math.random() * 2 ** 31),
+    isDeleted: false,
+    boundElements: null,
+    updated: Date.now(),
+    link: null,
+    locked: false,
+  };
+}
+
+function textElement(
+  id: string,
+  text: string,
+  box: [Point, Point],
+  containerId: string | null,
+  textAlign: string
+): ExcalidrawTextElement {
+  const lines = text.split("\n");
+  const width = Math.max(...lines.map((line) => line.length)) * FONT_SIZE * 0.6;
+  const height = lines.length * FONT_SIZE * LINE_HEIGHT;
+  const [[x1, y1], [x2, y2]] = box;
+  const x = containerId ? (x1 + x2 - width) / 2 : x1;
+  const y = containerId ? (y1 + y2 - height) / 2 : y1;
+  return {
+    ...baseProperties(
+      id,
+      "text",
+      [
+        [x, y],
+        [x + width, y + height],
+      ],
+      {}
+    ),
+    type: "text",
+    text,
+    originalText: text,
+    fontSize: FONT_SIZE,
+    fontFamily: 1,
+    textAlign,
+    verticalAlign: containerId ? "middle" : "top",
+    lineHeight: LINE_HEIGHT,
+    containerId,
+  };
+}
+
+/**
+ * Convert Plait elements to a .excalidraw file. Geometry text becomes a
+ * text bound to its shape, the first label of an arrow line becomes the
+ * arrow's label, bound arrow ends become startBinding / endBinding.
+ * Mind maps have no Excalidraw counterpart and are left out.
+ */
+export function plaitToExcalidraw(elements: ServerElement[]): ExcalidrawFile {
+  const byId = new Map(elements.map((element) => [element.id, element]));
+  const scene: ExcalidrawElement[] = [];
+  const boundElements = new Map<
+    string,
+    { id: string; type: "text" | "arrow" }[]
+  >();
+  const bind = (containerId: string, id: string, type: "text" | "arrow") =>
+    boundElements.set(containerId, [
+      ...(boundElements.get(containerId) || []),
+      { id, type },
+    ]);
+
+  elements.forEach((element) => {
+    const box = getElementBounds(element);
+    if (!box) return;
+    const corners: [Point, Point] = [
+      [box.x, box.y],
+      [box.x + box.width, box.y + box.height],
+    ];
+
+    if (element.type === "geometry") {
+      const geometry = element as ServerGeometryElement;
+      const text = plainText(geometry.text);
+      if (geometry.shape === GeometryShapes.text) {
+        scene.push(
+          textElement(
+            geometry.id,
+            text,
+            corners,
+            null,
+            geometry.textAlign || TextAlign.left
+          )
+        );
+        return;
+      }
+      // Shapes drawn in the browser, e.g. roundRectangle or parallelogram,
+      // have no Excalidraw counterpart and become rectangles
+      const shape: string = geometry.shape;
+      const type =
+        shape === "ellipse" || shape === "diamond" ? shape : "rectangle";
+      scene.push({
+        ...baseProperties(geometry.id, type, corners, geometry),
+        type,
+        width: box.width,
+        height: box.height,
+        backgroundColor: geometry.fill || "transparent",
+        roundness: shape === "roundRectangle" ? { type: 3 } : null,
+      });
+      if (text) {
+        const textId = `${geometry.id}-text`;
+        scene.push(
+          textElement(
+            textId,
+            text,
+            corners,
+            geometry.id,
+            geometry.textAlign || TextAlign.center
+          )
+        );
+        bind(geometry.id, textId, "text");
+      }
+      return;
+    }
+
+    if (element.type === "arrow-line") {
+      const arrowLine = element as ServerArrowLineElement;
+      const [[startX, startY]] = arrowLine.points as [Point];
+      const binding = (boundId: string | undefined) => {
+        if (!boundId || byId.get(boundId)?.type !== "geometry") return null;
+        bind(boundId, arrowLine.id, "arrow");
+        return { elementId: boundId, focus: 0, gap: BINDING_GAP };
+      };
+      scene.push({
+        ...baseProperties(arrowLine.id, "arrow", corners, arrowLine),
+        type: "arrow",
+        x: startX,
+        y: startY,
+        roundness:
+          arrowLine.shape === ArrowLineShapes.curve ? { type: 2 } : null,
+        points: arrowLine.points.map(([x, y]): [number, number] => [
+          x - startX,
+          y - startY,
+        ]),
+        lastCommittedPoint: null,
+        startBinding: binding(arrowLine.source?.boundId),
+        endBinding: binding(arrowLine.target?.boundId),
+        startArrowhead: toArrowhead(arrowLine.source?.marker),
+        endArrowhead: toArrowhead(arrowLine.target?.marker),
+        elbowed: arrowLine.shape === ArrowLineShapes.elbow,
+      });
+      const label = elementText(arrowLine).split("\n")[0];
+      if (label) {
+        const textId = `${arrowLine.id}-label`;
+        scene.push(
+          textElement(textId, label, corners, arrowLine.id, TextAlign.center)
+        );
+        bind(arrowLine.id, textId, "text");
+      }
+      return;
+    }
+
+    if (element.type === "freehand") {
+      const points = (element as ServerElement & { points: Point[] }).points;
+      const [[startX, startY]] = points as [Point];
+      scene.push({
+        ...baseProperties(element.id, "freedraw", corners, element),
+        type: "freedraw",
+        x: startX,
+        y: startY,
+        points: points.map(([x, y]): [number, number] => [
+          x - startX,
+          y - startY,
+        ]),
+        pressures: [],
+        simulatePressure: true,
+        lastCommittedPoint: null,
+      });
+    }
+  });
+
+  scene.forEach((element) => {
+    const bound = boundElements.get(element.id);
+    if (bound) element.boundElements = bound;
+  });
+
+  return {
+    type: "excalidraw",
+    version: 2,
+    source: "mcp-plait-server",
+    elements: scene,
+    appState: { viewBackgroundColor: "#ffffff", gridSize: null },
+    files: {},
+  };
+}
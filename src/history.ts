@@ -0,0 +1,180 @@
+import { generateId, ServerElement } from "./plait-types.js";
+
+// Who made a change: the MCP server, the browser board, or any other client
+export const OPERATION_ORIGINS = ["mcp", "frontend", "api"] as const;
+
+export type OperationOrigin = (typeof OPERATION_ORIGINS)[number];
+
+// Request header naming the origin of a write, "api" when absent
+export const ORIGIN_HEADER = "x-plait-origin";
+
+/**
+ * One element before and after an operation, null when it did not exist.
+ * Applying `before` undoes the change, applying `after` redoes it.
+ */
+export interface ElementChange {
+  id: string;
+  before: ServerElement | null;
+  after: ServerElement | null;
+}
+
+export interface HistoryEntry {
+  id: string;
+  // What the operation was, such as "create 3 elements"
+  label: string;
+  origin: OperationOrigin;
+  timestamp: string;
+  changes: ElementChange[];
+}
+
+export interface HistorySummary {
+  id: string;
+  label: string;
+  origin: OperationOrigin;
+  timestamp: string;
+  elementIds: string[];
+}
+
+// The board changed since the operation, so it can not be undone or redone
+export class HistoryConflictError extends Error {}
+
+const MAX_HISTORY_ENTRIES = 100;
+
+// Bookkeeping fields that change on every write without changing the element
+export const METADATA_FIELDS = new Set([
+  "version",
+  "createdAt",
+  "updatedAt",
+  "syncedAt",
+  "syncTimestamp",
+]);
+
+function content(element: ServerElement | null | undefined): string {
+  if (!element) return "null";
+  return JSON.stringify(element, (key, value) =>
+    METADATA_FIELDS.has(key) ? undefined : value
+  );
+}
+
+export function sameContent(
+  a: ServerElement | null | undefined,
+  b: ServerElement | null | undefined
+): boolean {
+  return content(a) === content(b);
+}
+
+export function parseOrigin(value: unknown): OperationOrigin {
+  return OPERATION_ORIGINS.includes(value as OperationOrigin)
+    ? (value as OperationOrigin)
+    : "api";
+}
+
+export function summarizeEntry(entry: HistoryEntry): HistorySummary {
+  return {
+    id: entry.id,
+    label: entry.label,
+    origin: entry.origin,
+    timestamp: entry.timestamp,
+    elementIds: entry.changes.map((change) => change.id),
+  };
+}
+
+/**
+ * Undo and redo stacks of one board. Every write is recorded as one entry,
+ * so a batch is undone as a unit. Undo can be limited to one origin, so an
+ * agent rolls back its own operations and not the user's.
+ */
+export class BoardHistory {
+  private readonly undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  record(
+    origin: OperationOrigin,
+    label: string,
+    changes: ElementChange[]
+  ): HistoryEntry | null {
+    const effective = changes.filter(
+      (change) => !sameContent(change.before, change.after)
+    );
+    if (effective.length === 0) return null;
+
+    const entry: HistoryEntry = {
+      id: generateId(),
+      label,
+      origin,
+      timestamp: new Date().toISOString(),
+      changes: effective,
+    };
+    this.undoStack.push(entry);
+    if (this.undoStack.length > MAX_HISTORY_ENTRIES) {
+      this.undoStack.shift();
+    }
+
+    // A redo is only possible while nothing else touched its elements
+    const touched = new Set(effective.map((change) => change.id));
+    this.redoStack = this.redoStack.filter(
+      (redo) => !redo.changes.some((change) => touched.has(change.id))
+    );
+    return entry;
+  }
+
+  /**
+   * Undo the latest entry of the origin (any origin when omitted). `apply`
+   * writes the states and throws when they can not be applied, in which case
+   * the entry stays where it is.
+   */
+  undo(
+    origin: OperationOrigin | undefined,
+    apply: (changes: ElementChange[]) => void
+  ): HistoryEntry | null {
+    return this.move(this.undoStack, this.redoStack, origin, (entry) =>
+      apply(
+        entry.changes
+          .map(({ id, before, after }) => ({
+            id,
+            before: after,
+            after: before,
+          }))
+          .reverse()
+      )
+    );
+  }
+
+  redo(
+    origin: OperationOrigin | undefined,
+    apply: (changes: ElementChange[]) => void
+  ): HistoryEntry | null {
+    return this.move(this.redoStack, this.undoStack, origin, (entry) =>
+      apply(entry.changes)
+    );
+  }
+
+  list(): { undo: HistorySummary[]; redo: HistorySummary[] } {
+    return {
+      undo: this.undoStack.map(summarizeEntry).reverse(),
+      redo: this.redoStack.map(summarizeEntry).reverse(),
+    };
+  }
+
+  clear(): void {
+    this.undoStack.length = 0;
+    this.redoStack = [];
+  }
+
+  private move(
+    from: HistoryEntry[],
+    to: HistoryEntry[],
+    origin: OperationOrigin | undefined,
+    apply: (entry: HistoryEntry) => void
+  ): HistoryEntry | null {
+    let index = from.length - 1;
+    while (index >= 0 && origin && from[index]!.origin !== origin) index--;
+    if (index < 0) return null;
+
+    const entry = from[index]!;
+    apply(entry);
+    from.splice(index, 1);
+    to.push(entry);
+    return entry;
+  }
+}
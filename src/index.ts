@@ -5,8 +5,12 @@ process.env.NODE_DISABLE_COLORS = "1";
 process.env.NO_COLOR = "1";
 
 import { fileURLToPath } from "url";
+import fs from "fs";
+import path from "path";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { startHttpTransport } from "./mcp-http.js";
+import { TokenAuth } from "./auth.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
@@ -14,22 +18,72 @@ import {
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
+import { zodToJsonSchema as convertZodSchema } from "zod-to-json-schema";
 import dotenv from "dotenv";
 import logger from "./utils/logger.js";
 import {
   generateId,
   PLAIT_ELEMENT_TYPES,
+  Point,
   ServerElement,
   PlaitElementType,
-  validateElement,
-  StrokeStyle,
-  ArrowLineShapes,
-  GeometryShapes,
-  ArrowLineMarkerType,
-  TextAlign,
-  FreehandShapes,
 } from "./plait-types.js";
-import fetch from "node-fetch";
+import { parseArguments } from "./schemas.js";
+import { summarizeDiff } from "./snapshots.js";
+import { OutboxEntry } from "./outbox.js";
+import {
+  CanvasClient,
+  EmbeddedCanvasClient,
+  HttpCanvasClient,
+  SyncResult,
+} from "./canvas-client.js";
+import { createCanvasService } from "./canvas-service.js";
+import {
+  connectElementsArguments,
+  createArrowLineElementArguments,
+  createElementsArguments,
+  createFreehandElementArguments,
+  createGeometryElementArguments,
+  createMindmapArguments,
+  deleteElementsArguments,
+  diffSnapshotsArguments,
+  exportExcalidrawArguments,
+  exportMermaidArguments,
+  exportSvgArguments,
+  getCanvasArguments,
+  getElementArguments,
+  importExcalidrawArguments,
+  importMermaidArguments,
+  layoutDiagramArguments,
+  listSnapshotsArguments,
+  queryElementsArguments,
+  redoArguments,
+  restoreSnapshotArguments,
+  saveSnapshotArguments,
+  syncStatusArguments,
+  undoArguments,
+  updateElementArguments,
+} from "./tool-schemas.js";
+import { createMindElement, parseMarkdownOutline } from "./mindmap.js";
+import { layoutDiagram } from "./layout.js";
+import { connectArrowLine } from "./routing.js";
+import { fitText } from "./text-metrics.js";
+import {
+  getElementBounds,
+  summarizeCanvas,
+  summarizeElement,
+} from "./query.js";
+import { renderSvg } from "./svg-export.js";
+import {
+  exportMermaid,
+  mermaidToElements,
+  parseMermaidFlowchart,
+} from "./mermaid.js";
+import {
+  excalidrawToPlait,
+  parseExcalidrawScene,
+  plaitToExcalidraw,
+} from "./excalidraw.js";
 
 // Load environment variables
 dotenv.config();
@@ -38,383 +92,1119 @@ dotenv.config();
 const EXPRESS_SERVER_URL =
   process.env.EXPRESS_SERVER_URL || "http://localhost:3000";
 const ENABLE_CANVAS_SYNC = process.env.ENABLE_CANVAS_SYNC !== "false"; // Default to true
+const DEFAULT_BOARD_ID = process.env.DEFAULT_BOARD_ID || "default";
+// Sent with every canvas request when the canvas requires tokens
+const CANVAS_TOKEN = process.env.CANVAS_TOKEN;
+// remote talks to the canvas server at EXPRESS_SERVER_URL, started on its
+// own with npm run canvas; embedded runs the canvas in this process
+const CANVAS_MODE = process.env.CANVAS_MODE || "remote";
 
-// API Response types
-interface ApiResponse {
-  success: boolean;
-  element?: ServerElement;
-  elements?: ServerElement[];
-  message?: string;
-  count?: number;
+// Tools only read and write files in this directory
+const FILES_DIR = path.resolve(process.env.MCP_FILES_DIR || "exports");
+
+// The absolute path of a file a tool reads or writes, relative paths are
+// taken from FILES_DIR and paths outside it are refused
+function resolveFilePath(file: string): string {
+  const resolved = path.resolve(FILES_DIR, file);
+  const relative = path.relative(FILES_DIR, resolved);
+  if (
+    !relative ||
+    relative === ".." ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  ) {
+    throw new Error(
+      `${file} is not a file in ${FILES_DIR}, tools only use files there; set MCP_FILES_DIR to use another directory`
+    );
+  }
+  return resolved;
 }
 
-interface SyncResponse {
-  element?: ServerElement;
-  elements?: ServerElement[];
+// The canvas the tools draw on, the embedded one once it is started
+let canvas: CanvasClient = new HttpCanvasClient({
+  url: EXPRESS_SERVER_URL,
+  token: CANVAS_TOKEN,
+  enabled: ENABLE_CANVAS_SYNC,
+});
+
+// Helper to sync element creation to canvas
+async function createElementOnCanvas(
+  elementData: ServerElement,
+  boardId: string
+): Promise<SyncResult> {
+  return canvas.sync("create", elementData, boardId);
 }
 
-// Helper functions to sync with Express server (canvas)
-async function syncToCanvas(
-  operation: string,
-  data: any
-): Promise<SyncResponse | null> {
-  if (!ENABLE_CANVAS_SYNC) {
-    logger.debug("Canvas sync disabled, skipping");
-    return null;
-  }
+// Helper to sync a batch of new elements to canvas in one request
+async function createElementsOnCanvas(
+  elementsData: ServerElement[],
+  boardId: string
+): Promise<SyncResult> {
+  return canvas.sync("batch_create", { elements: elementsData }, boardId);
+}
 
-  try {
-    let url: string;
-    let options: any;
-
-    switch (operation) {
-      case "create":
-        url = `${EXPRESS_SERVER_URL}/api/elements`;
-        options = {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(data),
-        };
-        break;
-      default:
-        logger.warn(`Unknown sync operation: ${operation}`);
-        return null;
-    }
+// Helper to sync element update to canvas
+async function updateElementOnCanvas(
+  id: string,
+  changes: Partial<ServerElement>,
+  boardId: string
+): Promise<SyncResult> {
+  return canvas.sync("update", { ...changes, id }, boardId);
+}
 
-    logger.debug(`Syncing to canvas: ${operation}`, { url, data });
-    const response = await fetch(url, options);
+// Helper to sync element deletion to canvas; no ids clears the whole canvas
+async function deleteElementsOnCanvas(
+  ids: string[] | undefined,
+  cascade: boolean,
+  expectedVersions: Record<string, number> | undefined,
+  boardId: string
+): Promise<SyncResult> {
+  return canvas.sync("delete", { ids, cascade, expectedVersions }, boardId);
+}
 
-    if (!response.ok) {
-      throw new Error(
-        `Canvas sync failed: ${response.status} ${response.statusText}`
+// The line tool results end with, saying whether the write reached the canvas
+function syncNote(result: SyncResult): string {
+  switch (result.status) {
+    case "synced":
+      return "✅ Synced to canvas";
+    case "queued":
+      return `⏳ Not on the canvas yet: ${
+        result.entry.lastError || "earlier operations are still waiting"
+      }. Queued as ${
+        result.entry.id
+      }, it is replayed in order once the canvas server is reachable, see sync_status`;
+    case "disabled":
+      return "⚠️ Not on the canvas: canvas sync is disabled (ENABLE_CANVAS_SYNC=false)";
+  }
+}
+
+// Fit geometries to their text before they are written: autoSize ones are
+// resized, the others are described when their text overflows
+function fitElementsText(elements: ServerElement[]): {
+  elements: ServerElement[];
+  warnings: string[];
+} {
+  const warnings: string[] = [];
+  const fitted = elements.map((element) => {
+    const fit = fitText(element);
+    if (fit.needed) {
+      const bounds = getElementBounds(element)!;
+      warnings.push(
+        `⚠️ The text of ${element.id ?? "the element"} overflows its ${Math.round(
+          bounds.width
+        )}x${Math.round(bounds.height)} shape, it needs ${fit.needed.width}x${
+          fit.needed.height
+        }: resize it, or set autoSize to grow it`
       );
     }
+    return fit.element;
+  });
+  return { elements: fitted, warnings };
+}
 
-    const result = (await response.json()) as ApiResponse;
-    logger.debug(`Canvas sync successful: ${operation}`, result);
-    return result as SyncResponse;
-  } catch (error) {
-    logger.warn(
-      `Canvas sync failed for ${operation}:`,
-      (error as Error).message
-    );
-    // Don't throw - we want MCP operations to work even if canvas is unavailable
-    return null;
+// Fit an element to its text as the changes leave it, growing it through
+// the changes. It is not sized when it can not be read.
+async function fitUpdatedText(
+  id: string,
+  changes: Partial<ServerElement>,
+  boardId: string
+): Promise<string[]> {
+  const sizing = ["text", "shape", "points", "autoSize"];
+  if (!Object.keys(changes).some((key) => sizing.includes(key))) return [];
+  let current: ServerElement;
+  try {
+    current = await canvas.getElement(boardId, id);
+  } catch {
+    return [];
+  }
+  const { elements, warnings } = fitElementsText([
+    { ...current, ...changes, id },
+  ]);
+  const points = (elements[0] as ServerElement & { points?: Point[] }).points;
+  if (
+    points &&
+    JSON.stringify(points) !==
+      JSON.stringify((current as ServerElement & { points?: Point[] }).points)
+  ) {
+    Object.assign(changes, { points });
   }
+  return warnings;
 }
 
-// Helper to sync element creation to canvas
-async function createElementOnCanvas(
-  elementData: ServerElement
-): Promise<ServerElement | null> {
-  const result = await syncToCanvas("create", elementData);
-  return result?.element || elementData;
+function warningsNote(warnings: string[]): string {
+  return warnings.map((warning) => `\n\n${warning}`).join("");
+}
+
+// One line about a queued write for sync_status
+function describeEntry(entry: OutboxEntry): string {
+  const data = entry.data as {
+    id?: string;
+    type?: string;
+    elements?: unknown[];
+    ids?: string[];
+  };
+  const target = {
+    create: `${data.type} ${data.id ?? ""}`.trim(),
+    batch_create: `${data.elements?.length ?? 0} elements`,
+    update: `element ${data.id}`,
+    delete: data.ids ? data.ids.join(", ") : "all elements",
+  }[entry.operation];
+  return `${entry.id} ${entry.operation} ${target} on board ${
+    entry.boardId
+  }, queued ${entry.queuedAt}, ${entry.attempts} attempt(s)${
+    entry.lastError ? `, last error: ${entry.lastError}` : ""
+  }`;
 }
 
 // Tool definitions
+
+// The element creation tools and the schema of their element type
+const createElementArguments = {
+  create_geometry_element: createGeometryElementArguments,
+  create_arrow_line_element: createArrowLineElementArguments,
+  create_freehand_element: createFreehandElementArguments,
+};
+
+// zod-to-json-schema's own typings are too deep for the compiler to check
+// against our schemas, so it is called through this narrower signature
+const zodToJsonSchema = convertZodSchema as unknown as (
+  schema: z.ZodTypeAny,
+  options: { $refStrategy: "none" }
+) => object;
+
+// Every tool can target a named board, the default board otherwise
+const boardIdProperty = {
+  type: "string",
+  description: `The id of the board to draw on, defaults to "${DEFAULT_BOARD_ID}"`,
+};
+
+// JSON Schema of a tool's arguments, generated from the zod schema that also
+// parses them, plus the boardId every tool accepts
+function toolInputSchema(schema: z.ZodTypeAny): Tool["inputSchema"] {
+  const jsonSchema = zodToJsonSchema(schema, {
+    $refStrategy: "none",
+  }) as Record<string, unknown>;
+  const { $schema: _schema, properties, ...rest } = jsonSchema;
+  return {
+    ...rest,
+    type: "object",
+    properties: {
+      boardId: boardIdProperty,
+      ...(properties as Record<string, unknown>),
+    },
+  };
+}
+
 const tools: Tool[] = [
   {
     name: "create_geometry_element",
     description: `Create a new Plait Draw Geometry element, such as rectangle, ellipse, diamond, text, etc.
-    If the type is text, you can set the autoSize property to true so that the width and height of the text are adaptive and the second value of points will not be used.`,
-    inputSchema: {
-      type: "object",
-      properties: {
-        id: {
-          type: "string",
-          description:
-            "The unique identifier of the element, 5 characters in ABCDEFGHJKMNPQRSTWXYZabcdefhijkmnprstwxyz,",
-        },
-        type: z.literal("geometry"),
-        points: {
-          type: "array",
-          items: z.tuple([z.number(), z.number()]),
-          description: `The position of the element on the canvas, such as [[100, 100], [200, 200]]. 
-          If the shape is text, then autoSize is true, and pointers should point to the top left and bottom right corners after the text is rendered`,
-        },
-        shape: {
-          type: "string",
-          enum: Object.values(GeometryShapes),
-        },
-        text: { type: "string" },
-        textAlign: {
-          type: "string",
-          enum: Object.values(TextAlign),
-        },
-        fill: { type: "string" },
-        strokeColor: { type: "string" },
-        strokeWidth: { type: "number" },
-        strokeStyle: {
-          type: "string",
-          enum: Object.values(StrokeStyle),
-        },
-        autoSize: { type: "boolean" },
-      },
-      required: ["type", "points", "text", "shape", "textAlign"],
-    },
+    Set autoSize to true to size it to its text from the measured font metrics: a text element takes the size of its text and the second value of points is not used, other shapes grow until their wrapped text fits.
+    Without autoSize the result warns with the size needed when the text overflows the shape.`,
+    inputSchema: toolInputSchema(createGeometryElementArguments),
   },
   {
     name: "create_arrow_line_element",
     description: `Create a new Plait Draw Arrow Line element, such as straight, curve, elbow, etc.
     There can be multiple texts on a line. The position of the text on the line is represented by position(0-1), usually 0.5 means it is in the middle.
     If the two graphs have two-way arrows, you need to set the two lines not to overlap.
-    You need to choose the appropriate arrow shape according to different scenarios, curve is suitable for some illustrative scenarios, and elbow is suitable for standard flowcharts.`,
-    inputSchema: {
-      id: {
-        type: "string",
-        description:
-          "The unique identifier of the element, 5 characters in ABCDEFGHJKMNPQRSTWXYZabcdefhijkmnprstwxyz,",
-      },
-      type: "object",
-      properties: {
-        type: z.literal("arrow-line"),
-        points: {
-          type: "array",
-          items: z.tuple([z.number(), z.number()]),
-        },
-        shape: {
-          type: "string",
-          enum: Object.values(ArrowLineShapes),
-        },
-        texts: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: {
-              text: { type: "string" },
-              position: { type: "number" },
-            },
-            required: ["text", "position"],
-          },
-        },
-        strokeColor: { type: "string" },
-        strokeWidth: { type: "number" },
-        strokeStyle: {
-          type: "string",
-          enum: Object.values(StrokeStyle),
-        },
-        source: {
-          type: "object",
-          properties: {
-            boundId: {
-              type: "string",
-              description:
-                "线的起始位置连着的元素的id，如果起点没有连着其它元素，则不填",
-            },
-            connection: {
-              type: "array",
-              items: { type: "number" },
-              minItems: 2,
-              maxItems: 2,
-              description: `该线条的起点连接元素的连接点，格式为 [x, y]， x 取值只能是 0 或 0.5 或 1， y 取值只能是 0 或 0.5 或 1，
-                    [0,0] 表示起点连接元素的左上角，[0,1] 表示起点连接元素的左下角，[1,0] 表示起点连接元素的右上角，[1,1] 表示起点连接元素的右下角，
-                    [0,0.5] 表示起点连接元素的左中，[1,0.5] 表示起点连接元素的右中，[0.5,0] 表示起点连接元素的上中，[0.5,1] 表示起点连接元素的下中，
-                    当 boundId 有值时，必填。`,
-            },
-            marker: {
-              type: "string",
-              enum: Object.values(ArrowLineMarkerType),
-              description: `该线条的起点箭头类型，有箭头代表着流动方向，如果是从开头到结尾的单方向只需要在 target 中设置 marker，source 设置为 node 就行，只有双向流通的逻辑才需要在 source 中设置 marker。`,
-            },
-          },
-          required: ["marker"],
-        },
-        target: {
-          type: "object",
-          properties: {
-            boundId: {
-              type: "string",
-              description:
-                "线的终点连着的元素的id，如果终点没有连着其它元素，则不填",
-            },
-            connection: {
-              type: "array",
-              items: { type: "number" },
-              minItems: 2,
-              maxItems: 2,
-              description: `该线条的终点连接元素的连接点，格式为 [x, y]， x 取值只能是 0 或 0.5 或 1， y 取值只能是 0 或 0.5 或 1，
-                    [0,0] 表示终点连接元素的左上角，[0,1] 表示终点连接元素的左下角，[1,0] 表示终点连接元素的右上角，[1,1] 表示终点连接元素的右下角，
-                    [0,0.5] 表示终点连接元素的左中，[1,0.5] 表示终点连接元素的右中，[0.5,0] 表示终点连接元素的上中，[0.5,1] 表示终点连接元素的下中，
-                    当 boundId 有值时，必填。`,
-            },
-            marker: {
-              type: "string",
-              enum: Object.values(ArrowLineMarkerType),
-              description: `该线条的终点箭头类型，有箭头代表着流动方向，如果箭头线的方向从开头到结尾的单方向只需要在 target 中设置 marker，如果不需要特殊表达从开始到结尾的方向设置 marker 为 node 就行。`,
-            },
-          },
-          required: ["marker"],
-        },
-      },
-      required: ["type", "points", "shape", "texts"],
-    },
+    You need to choose the appropriate arrow shape according to different scenarios, curve is suitable for some illustrative scenarios, and elbow is suitable for standard flowcharts.
+    The canvas puts bound ends (source.boundId / target.boundId) on their connection points and routes elbow lines around other shapes, so their points only need to be rough; they follow the shapes when those move.`,
+    inputSchema: toolInputSchema(createArrowLineElementArguments),
   },
   {
     name: "create_freehand_element",
     description: `Create a new Plait Draw Freehand element, only support feltTipPen shape.
     There can be multiple texts on a line. The position of the text on the line is represented by position(0-1), usually 0.5 means it is in the middle..`,
-    inputSchema: {
-      id: {
-        type: "string",
-        description:
-          "The unique identifier of the element, 5 characters in ABCDEFGHJKMNPQRSTWXYZabcdefhijkmnprstwxyz,",
-      },
-      type: "object",
-      properties: {
-        type: z.literal("freehand"),
-        points: {
-          type: "array",
-          items: z.tuple([z.number(), z.number()]),
-        },
-        shape: {
-          type: "string",
-          enum: Object.values(FreehandShapes),
-        },
-        strokeColor: { type: "string" },
-        strokeWidth: { type: "number" },
-      },
-      required: ["type", "points", "shape"],
-    },
+    inputSchema: toolInputSchema(createFreehandElementArguments),
   },
-];
-
-// Initialize MCP server
-const server = new Server(
   {
-    name: "mcp-plait-server",
-    version: "0.0.1",
-    description: "Advanced MCP server for Plait with real-time canvas",
+    name: "create_mindmap",
+    description: `Create a real Plait mind map, suitable for brainstorming, decomposition and knowledge structures.
+    Pass either a nested topic tree in root, or a Markdown outline (headings and nested bullet lists) in markdown.
+    Node sizes and positions are computed by the mind map layout, only the position of the central topic is needed.`,
+    inputSchema: toolInputSchema(createMindmapArguments),
   },
   {
-    capabilities: {
-      tools: Object.fromEntries(
-        tools.map((tool) => [
-          tool.name,
-          {
-            description: tool.description,
-            inputSchema: tool.inputSchema,
-          },
-        ])
-      ),
-    },
-  }
-);
+    name: "layout_diagram",
+    description: `Draw a diagram from nodes and edges without computing any coordinates.
+    Positions and sizes are computed by the chosen algorithm: layered for flowcharts and dependency graphs, tree for hierarchies, grid for collections without structure.
+    Every node becomes a geometry element with its text inside, every edge an elbow arrow line bound to its two nodes.`,
+    inputSchema: toolInputSchema(layoutDiagramArguments),
+  },
+  {
+    name: "connect_elements",
+    description: `Connect two geometry elements with an arrow line, by their ids and without any coordinates.
+    The sides of the two shapes that face each other are picked, preferring the ones with enough room for the label, and the line stays bound to the shapes when they move.
+    Prefer this over create_arrow_line_element to connect existing shapes.`,
+    inputSchema: toolInputSchema(connectElementsArguments),
+  },
+  {
+    name: "create_elements",
+    description: `Create many Plait elements at once, for example a whole flowchart in a single call.
+    Each item has the same properties as in create_geometry_element, create_arrow_line_element or create_freehand_element, and its type decides which one.
+    Arrow lines can bind (source.boundId / target.boundId) to geometries created in the same batch.
+    The batch is validated as a whole: if any element is invalid, nothing is created.`,
+    inputSchema: toolInputSchema(createElementsArguments),
+  },
+  {
+    name: "update_element",
+    description: `Update an existing Plait element in place by its id, instead of drawing a duplicate.
+    Only pass the properties that should change, such as text, fill, strokeColor, points or texts; all other properties are kept.
+    The id and type of an element can not be changed.
+    People edit the canvas at the same time: pass the version you read as expectedVersion, and when the update is rejected because the element changed, look at its current state and retry on top of it.`,
+    inputSchema: toolInputSchema(updateElementArguments),
+  },
+  {
+    name: "delete_elements",
+    description: `Delete elements from the canvas by their ids.
+    Arrow lines connected to a deleted element are detached from it and stay on the canvas, unless cascade is true, in which case they are deleted as well.
+    Set all to true (without ids) to clear the whole canvas.
+    Pass expectedVersions to delete only elements nobody changed since you read them.`,
+    inputSchema: toolInputSchema(deleteElementsArguments),
+  },
+  {
+    name: "get_canvas",
+    description: `Look at what is already on the canvas before drawing: element counts, the occupied area and where free space starts, and one summary line per element with its id, type, shape, text and position.
+    Use it to extend a diagram someone else started, or to avoid drawing on top of existing elements.`,
+    inputSchema: toolInputSchema(getCanvasArguments),
+  },
+  {
+    name: "get_element",
+    description: `Get every property of one element by its id, for example before updating it.`,
+    inputSchema: toolInputSchema(getElementArguments),
+  },
+  {
+    name: "query_elements",
+    description: `Find elements on the canvas and list them in the same summary form as get_canvas.
+    Filters can be combined: type, shape, text (substring), within (an area the elements intersect), boundTo (arrow lines bound to an element) and connectedTo (elements joined to an element by an arrow line).`,
+    inputSchema: toolInputSchema(queryElementsArguments),
+  },
+  {
+    name: "export_svg",
+    description: `Export the canvas, some elements (ids) or an area of it (region) as a standalone SVG image, for example to put a diagram into a document or a pull request.
+    Mind maps are not included in the export.`,
+    inputSchema: toolInputSchema(exportSvgArguments),
+  },
+  {
+    name: "import_mermaid",
+    description: `Draw a Mermaid flowchart (flowchart or graph syntax) on the canvas, laid out automatically like layout_diagram.
+    Node shapes, edge labels, dotted and thick links, the direction and subgraphs are kept; subgraphs become dashed frames around their nodes.
+    Styling statements such as classDef, style and click are ignored.`,
+    inputSchema: toolInputSchema(importMermaidArguments),
+  },
+  {
+    name: "export_mermaid",
+    description: `Export the diagram on the canvas as a Mermaid flowchart.
+    Geometries become nodes and arrow lines bound to geometries at both ends become edges; unbound arrow lines, freehand strokes and mind maps are left out.`,
+    inputSchema: toolInputSchema(exportMermaidArguments),
+  },
+  {
+    name: "import_excalidraw",
+    description: `Draw an Excalidraw drawing (a .excalidraw file, by path or content) on the canvas.
+    Rectangles, ellipses and diamonds become geometries with their bound text, free text becomes text geometries, arrows and lines become arrow lines that stay bound to the same shapes, freedraw becomes freehand strokes.
+    Other Excalidraw elements such as images and frames are skipped and reported.`,
+    inputSchema: toolInputSchema(importExcalidrawArguments),
+  },
+  {
+    name: "export_excalidraw",
+    description: `Export the canvas as a .excalidraw file that opens in Excalidraw, with arrows bound to their shapes.
+    Mind maps are not included in the export.`,
+    inputSchema: toolInputSchema(exportExcalidrawArguments),
+  },
+  {
+    name: "undo",
+    description: `Undo the latest operations on the canvas, by default only those made through MCP so the user's own edits are kept.
+    Every tool call is one operation, so a whole batch, diagram or import is undone at once.
+    Undo stops when a later operation changed the same elements.`,
+    inputSchema: toolInputSchema(undoArguments),
+  },
+  {
+    name: "redo",
+    description: `Redo operations that were undone, as long as their elements were not changed since.`,
+    inputSchema: toolInputSchema(redoArguments),
+  },
+  {
+    name: "save_snapshot",
+    description: `Save the current canvas as a named snapshot, a checkpoint to compare with or go back to, for example before reworking a diagram.`,
+    inputSchema: toolInputSchema(saveSnapshotArguments),
+  },
+  {
+    name: "list_snapshots",
+    description: `List the saved snapshots of the canvas with their ids, names, dates and element counts.`,
+    inputSchema: toolInputSchema(listSnapshotsArguments),
+  },
+  {
+    name: "restore_snapshot",
+    description: `Replace everything on the canvas with a saved snapshot. Open browser boards reload, and the restore can itself be undone.`,
+    inputSchema: toolInputSchema(restoreSnapshotArguments),
+  },
+  {
+    name: "diff_snapshots",
+    description: `Compare two snapshots, or a snapshot with the current canvas: the elements added and removed, and the changed fields of modified elements.`,
+    inputSchema: toolInputSchema(diffSnapshotsArguments),
+  },
+  {
+    name: "sync_status",
+    description: `Check whether writes reached the canvas. Writes made while the canvas server was unreachable are queued and replayed in order once it is back; this lists the pending ones and those the canvas refused on replay.`,
+    inputSchema: toolInputSchema(syncStatusArguments),
+  },
+];
 
-// Set up request handler for tool calls
-server.setRequestHandler(
-  CallToolRequestSchema,
-  async (request: CallToolRequest) => {
-    try {
-      const { name, arguments: args } = request.params;
-      logger.debug(`Handling tool call: ${name}`);
-
-      switch (name) {
-        case "create_geometry_element":
-        case "create_arrow_line_element":
-        case "create_freehand_element": {
-          const params = args as unknown as ServerElement;
-          if (!params.id) {
-            throw new Error("Failed to create element: id is required");
-          }
-          if (
-            name === "create_arrow_line_element" &&
-            params.type !== "arrow-line"
-          ) {
-            throw new Error(
-              "Failed to create element: type must be arrow-line"
-            );
-          }
-          if (
-            name === "create_freehand_element" &&
-            params.type !== "freehand"
-          ) {
-            throw new Error("Failed to create element: type must be freehand");
-          }
-          if (
-            name === "create_geometry_element" &&
-            params.type !== "geometry"
-          ) {
-            throw new Error("Failed to create element: type must be geometry");
-          }
-          logger.debug("Creating element via MCP", { type: params.type });
-          // Create element directly on HTTP server (no local storage)
-          const canvasElement = await createElementOnCanvas(params);
-
-          if (!canvasElement) {
-            throw new Error(
-              "Failed to create element: HTTP server unavailable"
-            );
+// Summary lines of elements must stay short on large boards
+const DEFAULT_SUMMARY_LIMIT = 100;
+
+// Handle tool calls
+async function handleCallTool(request: CallToolRequest) {
+  try {
+    const { name, arguments: rawArgs } = request.params;
+    const { boardId = DEFAULT_BOARD_ID, ...args } = (rawArgs || {}) as {
+      boardId?: string;
+      [key: string]: unknown;
+    };
+    logger.debug(`Handling tool call: ${name}`);
+
+    switch (name) {
+      case "create_geometry_element":
+      case "create_arrow_line_element":
+      case "create_freehand_element": {
+        // Reject invalid elements with field-level errors before syncing
+        const { elements, warnings } = fitElementsText([
+          parseArguments(
+            createElementArguments[name],
+            args
+          ) as unknown as ServerElement,
+        ]);
+        const element = elements[0]!;
+        logger.debug("Creating element via MCP", { type: element.type });
+        // Create element directly on HTTP server (no local storage)
+        const result = await createElementOnCanvas(element, boardId);
+
+        logger.debug("Element created via MCP", {
+          type: element.type,
+          sync: result.status,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${
+                result.status === "synced"
+                  ? "Element created successfully!"
+                  : "Element not created yet:"
+              }\n\n${JSON.stringify(
+                result.status === "synced" ? result.response.element : element,
+                null,
+                2
+              )}${warningsNote(warnings)}\n\n${syncNote(result)}`,
+            },
+          ],
+        };
+      }
+
+      case "create_mindmap": {
+        const params = parseArguments(createMindmapArguments, args);
+        const root = params.root
+          ? params.root
+          : parseMarkdownOutline(params.markdown!, params.title);
+        const mindElement = createMindElement(root, {
+          id: params.id,
+          point: params.point,
+          layout: params.layout,
+          shape: params.shape,
+        });
+        logger.debug("Creating mind map via MCP", {
+          id: mindElement.id,
+          layout: mindElement.layout,
+        });
+        const result = await createElementOnCanvas(mindElement, boardId);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${
+                result.status === "synced"
+                  ? "Mind map created successfully!"
+                  : "Mind map not created yet:"
+              }\n\n${JSON.stringify(
+                result.status === "synced"
+                  ? result.response.element
+                  : mindElement,
+                null,
+                2
+              )}\n\n${syncNote(result)}`,
+            },
+          ],
+        };
+      }
+
+      case "layout_diagram": {
+        const params = parseArguments(layoutDiagramArguments, args);
+        const { geometries, arrowLines } = layoutDiagram(
+          params.nodes,
+          params.edges || [],
+          {
+            direction: params.direction,
+            algorithm: params.algorithm,
+            origin: params.origin,
+            nodeGap: params.nodeGap,
+            layerGap: params.layerGap,
+            columns: params.columns,
           }
+        );
+        logger.debug("Creating laid out diagram via MCP", {
+          nodes: geometries.length,
+          edges: arrowLines.length,
+        });
+        const result = await createElementsOnCanvas(
+          [...geometries, ...arrowLines],
+          boardId
+        );
+
+        const summary = geometries
+          .map(
+            (geometry) =>
+              `${geometry.id} "${geometry.text}" at ${JSON.stringify(
+                geometry.points
+              )}`
+          )
+          .join("\n");
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Diagram ${
+                result.status === "synced" ? "created" : "laid out"
+              } with ${geometries.length} nodes and ${
+                arrowLines.length
+              } arrow lines:\n${summary}\n\n${syncNote(result)}`,
+            },
+          ],
+        };
+      }
+
+      case "connect_elements": {
+        const { fromId, toId, ...options } = parseArguments(
+          connectElementsArguments,
+          args
+        );
+        const [from, to] = await Promise.all([
+          canvas.getElement(boardId, fromId),
+          canvas.getElement(boardId, toId),
+        ]);
+        const { arrowLine, warning } = connectArrowLine(from, to, options);
+        logger.debug("Connecting elements via MCP", { fromId, toId });
+        const result = await createElementOnCanvas(arrowLine, boardId);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${
+                result.status === "synced"
+                  ? `Connected ${fromId} to ${toId}:`
+                  : `${fromId} not connected to ${toId} yet:`
+              }\n\n${JSON.stringify(
+                result.status === "synced"
+                  ? result.response.element
+                  : arrowLine,
+                null,
+                2
+              )}${warning ? `\n\n⚠️ ${warning}` : ""}\n\n${syncNote(result)}`,
+            },
+          ],
+        };
+      }
+
+      case "create_elements": {
+        // Every element is checked on its own here, bindings to elements
+        // already on the canvas are checked by the canvas server
+        const { elements: batch, warnings } = fitElementsText(
+          parseArguments(createElementsArguments, args)
+            .elements as unknown as ServerElement[]
+        );
+        logger.debug("Creating elements batch via MCP", {
+          count: batch.length,
+        });
+        const result = await createElementsOnCanvas(batch, boardId);
+        const created =
+          result.status === "synced" ? result.response.elements || [] : batch;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${
+                result.status === "synced" ? "Created" : "Not created yet,"
+              } ${created.length} elements: ${created
+                .map((element) => `${element.id ?? "(new)"} (${element.type})`)
+                .join(", ")}${warningsNote(warnings)}\n\n${syncNote(result)}`,
+            },
+          ],
+        };
+      }
 
-          logger.debug("Element created via MCP and synced to canvas", {
-            type: params.type,
-            synced: !!canvasElement,
-          });
+      case "update_element": {
+        const { id, ...changes } = parseArguments(
+          updateElementArguments,
+          args
+        ) as Partial<ServerElement> & { id: string };
+        logger.debug("Updating element via MCP", {
+          id,
+          fields: Object.keys(changes),
+        });
+        const warnings = await fitUpdatedText(id, changes, boardId);
+        const result = await updateElementOnCanvas(id, changes, boardId);
 
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${
+                result.status === "synced"
+                  ? "Element updated successfully!"
+                  : `Element ${id} not updated yet, the changes:`
+              }\n\n${JSON.stringify(
+                result.status === "synced" ? result.response.element : changes,
+                null,
+                2
+              )}${warningsNote(warnings)}\n\n${syncNote(result)}`,
+            },
+          ],
+        };
+      }
+
+      case "delete_elements": {
+        const { ids, cascade, all, expectedVersions } = parseArguments(
+          deleteElementsArguments,
+          args
+        );
+        logger.debug("Deleting elements via MCP", { ids, cascade, all });
+        const result = await deleteElementsOnCanvas(
+          all ? undefined : ids,
+          !!cascade,
+          expectedVersions,
+          boardId
+        );
+
+        if (result.status !== "synced") {
           return {
             content: [
               {
                 type: "text",
-                text: `Element created successfully!\n\n${JSON.stringify(
-                  canvasElement,
-                  null,
-                  2
-                )}\n\n✅ Synced to canvas`,
+                text: `Not deleted yet: ${
+                  all ? "all elements" : ids!.join(", ")
+                }\n\n${syncNote(result)}`,
               },
             ],
           };
         }
 
-        default:
-          throw new Error(`Unknown tool: ${name}`);
+        const deletedIds = result.response.deletedIds || [];
+        const detachedIds = result.response.detachedIds || [];
+        const missingIds = all
+          ? []
+          : ids!.filter((id) => !deletedIds.includes(id));
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Deleted ${deletedIds.length} element(s): ${
+                deletedIds.join(", ") || "none"
+              }${
+                detachedIds.length > 0
+                  ? `\nDetached arrow lines: ${detachedIds.join(", ")}`
+                  : ""
+              }${
+                missingIds.length > 0
+                  ? `\nNot found: ${missingIds.join(", ")}`
+                  : ""
+              }\n\n${syncNote(result)}`,
+            },
+          ],
+        };
       }
-    } catch (error) {
-      logger.error(`Error handling tool call: ${(error as Error).message}`, {
-        error,
-      });
-      return {
-        content: [{ type: "text", text: `Error: ${(error as Error).message}` }],
-        isError: true,
-      };
+
+      case "get_canvas": {
+        const { limit = DEFAULT_SUMMARY_LIMIT } = parseArguments(
+          getCanvasArguments,
+          args
+        );
+        const elements = await canvas.listElements(boardId);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Board ${boardId}\n${summarizeCanvas(elements, limit)}`,
+            },
+          ],
+        };
+      }
+
+      case "get_element": {
+        const { id } = parseArguments(getElementArguments, args);
+        const element = await canvas.getElement(boardId, id);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(element, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "query_elements": {
+        const { limit = DEFAULT_SUMMARY_LIMIT, ...query } = parseArguments(
+          queryElementsArguments,
+          args
+        );
+        const elements = await canvas.searchElements(boardId, query);
+
+        const lines = elements.slice(0, limit).map(summarizeElement);
+        if (elements.length > limit) {
+          lines.push(`… ${elements.length - limit} more`);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                elements.length === 0
+                  ? "No elements match the query."
+                  : `${elements.length} matching elements:\n${lines.join(
+                      "\n"
+                    )}`,
+            },
+          ],
+        };
+      }
+
+      case "export_svg": {
+        const { outputPath, ...options } = parseArguments(
+          exportSvgArguments,
+          args
+        );
+        const elements = await canvas.listElements(boardId);
+        const svg = renderSvg(elements, options);
+
+        if (outputPath) {
+          const file = resolveFilePath(outputPath);
+          await fs.promises.mkdir(path.dirname(file), { recursive: true });
+          await fs.promises.writeFile(file, svg, "utf8");
+          return {
+            content: [
+              {
+                type: "text",
+                text: `SVG exported to ${file} (${Buffer.byteLength(
+                  svg
+                )} bytes)`,
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [{ type: "text", text: svg }],
+        };
+      }
+
+      case "import_mermaid": {
+        const { source, ...options } = parseArguments(
+          importMermaidArguments,
+          args
+        );
+        const chart = parseMermaidFlowchart(source);
+        const { elements, nodeIds } = mermaidToElements(chart, options);
+        logger.debug("Importing Mermaid flowchart via MCP", {
+          nodes: chart.nodes.length,
+          edges: chart.edges.length,
+          subgraphs: chart.subgraphs.length,
+        });
+        const result = await createElementsOnCanvas(elements, boardId);
+
+        const summary = chart.nodes
+          .map((node) => `${node.id} -> ${nodeIds.get(node.id)} "${node.text}"`)
+          .join("\n");
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Mermaid flowchart ${
+                result.status === "synced" ? "imported" : "converted"
+              } with ${chart.nodes.length} nodes, ${
+                chart.edges.length
+              } edges and ${
+                chart.subgraphs.length
+              } subgraphs.\nNode ids:\n${summary}\n\n${syncNote(result)}`,
+            },
+          ],
+        };
+      }
+
+      case "export_mermaid": {
+        parseArguments(exportMermaidArguments, args);
+        const elements = await canvas.listElements(boardId);
+        return {
+          content: [{ type: "text", text: exportMermaid(elements) }],
+        };
+      }
+
+      case "import_excalidraw": {
+        const params = parseArguments(importExcalidrawArguments, args);
+        const scene = parseExcalidrawScene(
+          params.path
+            ? await fs.promises.readFile(resolveFilePath(params.path), "utf8")
+            : params.content
+        );
+        const { elements, skipped } = excalidrawToPlait(scene, {
+          origin: params.origin,
+        });
+        if (elements.length === 0) {
+          throw new Error(
+            "The Excalidraw scene has no elements that can be imported"
+          );
+        }
+        logger.debug("Importing Excalidraw scene via MCP", {
+          count: elements.length,
+          skipped,
+        });
+        const result = await createElementsOnCanvas(elements, boardId);
+
+        const skippedTypes = Object.entries(skipped).map(
+          ([type, count]) => `${count} ${type}`
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${
+                result.status === "synced" ? "Imported" : "Converted"
+              } ${elements.length} elements from Excalidraw${
+                skippedTypes.length > 0
+                  ? `, skipped ${skippedTypes.join(", ")}`
+                  : ""
+              }\n\n${syncNote(result)}`,
+            },
+          ],
+        };
+      }
+
+      case "export_excalidraw": {
+        const { outputPath } = parseArguments(exportExcalidrawArguments, args);
+        const elements = await canvas.listElements(boardId);
+        const file = JSON.stringify(plaitToExcalidraw(elements), null, 2);
+
+        if (outputPath) {
+          const target = resolveFilePath(outputPath);
+          await fs.promises.mkdir(path.dirname(target), { recursive: true });
+          await fs.promises.writeFile(target, file, "utf8");
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Excalidraw file exported to ${target} (${Buffer.byteLength(
+                  file
+                )} bytes)`,
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [{ type: "text", text: file }],
+        };
+      }
+
+      case "undo":
+      case "redo": {
+        const { origin = "mcp", steps } = parseArguments(
+          name === "undo" ? undoArguments : redoArguments,
+          args
+        );
+        const { entries, stopped } = await canvas.history(
+          boardId,
+          name,
+          origin,
+          steps
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${name === "undo" ? "Undone" : "Redone"} ${
+                entries.length
+              } operations:\n${entries
+                .map(
+                  (entry) =>
+                    `${entry.label} (${entry.origin}, ${entry.elementIds.length} elements)`
+                )
+                .join("\n")}${stopped ? `\n\nStopped early: ${stopped}` : ""}`,
+            },
+          ],
+        };
+      }
+
+      case "save_snapshot": {
+        const { name: snapshotName } = parseArguments(
+          saveSnapshotArguments,
+          args
+        );
+        const snapshot = await canvas.saveSnapshot(boardId, snapshotName);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Snapshot "${snapshot.name}" saved with ${snapshot.elementCount} elements (id ${snapshot.id})`,
+            },
+          ],
+        };
+      }
+
+      case "list_snapshots": {
+        parseArguments(listSnapshotsArguments, args);
+        const snapshots = await canvas.listSnapshots(boardId);
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                snapshots.length === 0
+                  ? "No snapshots saved."
+                  : snapshots
+                      .map(
+                        (snapshot) =>
+                          `${snapshot.id} "${snapshot.name}" ${snapshot.createdAt}, ${snapshot.elementCount} elements`
+                      )
+                      .join("\n"),
+            },
+          ],
+        };
+      }
+
+      case "restore_snapshot": {
+        const { snapshot } = parseArguments(restoreSnapshotArguments, args);
+        const result = await canvas.restoreSnapshot(boardId, snapshot);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Snapshot "${result.snapshot.name}" restored, the canvas has ${result.count} elements\n\n✅ Synced to canvas`,
+            },
+          ],
+        };
+      }
+
+      case "diff_snapshots": {
+        const { from, to = "current" } = parseArguments(
+          diffSnapshotsArguments,
+          args
+        );
+        const diff = await canvas.diffSnapshots(boardId, from, to);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${from} -> ${to}: ${summarizeDiff(diff)}`,
+            },
+          ],
+        };
+      }
+
+      case "sync_status": {
+        const { retry, clearFailed } = parseArguments(
+          syncStatusArguments,
+          args
+        );
+        const { outbox } = canvas;
+        if (!outbox) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `The canvas runs in this process (${canvas.location}), writes are applied right away and never queued`,
+              },
+            ],
+          };
+        }
+        if (retry) await outbox.flush();
+        const { pending, failed, nextAttemptAt } = outbox.status();
+        if (clearFailed) outbox.clearFailed();
+
+        const lines = [
+          ENABLE_CANVAS_SYNC
+            ? `Canvas server ${canvas.location}: ${pending.length} pending, ${failed.length} failed${
+                nextAttemptAt ? `, next retry at ${nextAttemptAt}` : ""
+              }`
+            : "Canvas sync is disabled (ENABLE_CANVAS_SYNC=false)",
+        ];
+        if (pending.length > 0) {
+          lines.push("", "Pending, replayed in this order:");
+          lines.push(...pending.map(describeEntry));
+        }
+        if (failed.length > 0) {
+          lines.push(
+            "",
+            `Failed, the canvas refused them on replay${
+              clearFailed ? " (now cleared)" : ""
+            }:`
+          );
+          lines.push(
+            ...failed.map(
+              (entry) => `${describeEntry(entry)}, ${entry.failedAt}`
+            )
+          );
+        }
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+        };
+      }
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
     }
+  } catch (error) {
+    logger.error(`Error handling tool call: ${(error as Error).message}`, {
+      error,
+    });
+    return {
+      content: [{ type: "text", text: `Error: ${(error as Error).message}` }],
+      isError: true,
+    };
   }
-);
+}
 
-// Set up request handler for listing available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+// Handle listing available tools
+async function handleListTools() {
   logger.info("Listing available tools");
   return { tools };
-});
+}
+
+// Create an MCP server instance, HTTP mode creates one per session
+function createMcpServer(): Server {
+  const server = new Server(
+    {
+      name: "mcp-plait-server",
+      version: "0.0.1",
+      description: "Advanced MCP server for Plait with real-time canvas",
+    },
+    {
+      capabilities: {
+        tools: Object.fromEntries(
+          tools.map((tool) => [
+            tool.name,
+            {
+              description: tool.description,
+              inputSchema: tool.inputSchema,
+            },
+          ])
+        ),
+      },
+    }
+  );
+
+  server.setRequestHandler(CallToolRequestSchema, handleCallTool);
+  server.setRequestHandler(ListToolsRequestSchema, handleListTools);
+  return server;
+}
+
+// Start the canvas server in this process and point the tools at its boards.
+// Resolves to a function that stops it and flushes its storage.
+async function startEmbeddedCanvas(): Promise<() => Promise<void>> {
+  // Only loaded here, a remote canvas needs none of it
+  const { canvasServerOptions, startCanvasServer, stopCanvasServer } =
+    await import("./server.js");
+  const service = createCanvasService();
+  await service.load();
+
+  const options = canvasServerOptions();
+  try {
+    await startCanvasServer(service, options);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EADDRINUSE") {
+      throw new Error(
+        `Port ${options.port} is in use. To draw on a canvas server that is already running leave CANVAS_MODE unset and set EXPRESS_SERVER_URL, or set PORT to start the embedded canvas on another port`
+      );
+    }
+    throw error;
+  }
+
+  const url = `http://${options.host}:${options.port}`;
+  canvas = new EmbeddedCanvasClient(service, url);
+  logger.info(`Embedded canvas running on ${url}`);
+  return async () => {
+    await stopCanvasServer();
+    await service.close();
+  };
+}
 
 // Start server with transport based on mode
 async function runServer(): Promise<void> {
   try {
     logger.info("Starting Plait MCP server...");
 
+    if (CANVAS_MODE !== "embedded" && CANVAS_MODE !== "remote") {
+      throw new Error(
+        `Invalid CANVAS_MODE "${CANVAS_MODE}", expected embedded or remote`
+      );
+    }
+    // Stopped in reverse order on shutdown
+    const closers: (() => Promise<void>)[] = [];
+    if (CANVAS_MODE === "embedded") {
+      closers.push(await startEmbeddedCanvas());
+    }
+
     const transportMode = process.env.MCP_TRANSPORT_MODE || "stdio";
-    let transport;
 
     if (transportMode === "http") {
-      const port = parseInt(process.env.PORT || "3000", 10);
-      const host = process.env.HOST || "localhost";
+      // Defaults to 3001 so it can run next to the canvas server on 3000
+      const port = parseInt(process.env.MCP_PORT || "3001", 10);
+      const host = process.env.MCP_HOST || "localhost";
 
       logger.info(`Starting HTTP server on ${host}:${port}`);
-      // Here you would create an HTTP transport
-      // This is a placeholder - actual HTTP transport implementation would need to be added
-      transport = new StdioServerTransport(); // Fallback to stdio for now
+      const httpTransport = await startHttpTransport(createMcpServer, {
+        host,
+        port,
+        auth: new TokenAuth({
+          tokens: process.env.MCP_TOKENS,
+          file: process.env.MCP_AUTH_FILE,
+        }),
+      });
+      closers.push(() => httpTransport.close());
     } else {
       // Default to stdio transport
-      transport = new StdioServerTransport();
+      const transport = new StdioServerTransport();
+
+      // Add a debug message before connecting
+      logger.debug("Connecting to transport...");
+
+      await createMcpServer().connect(transport);
+
+      // Keep the process running
+      process.stdin.resume();
     }
 
-    // Add a debug message before connecting
-    logger.debug("Connecting to transport...");
+    // Graceful shutdown: close every session, then the HTTP server, then the
+    // embedded canvas
+    const shutdown = async (signal: string): Promise<void> => {
+      logger.info(`Received ${signal}, shutting down`);
+      try {
+        for (const close of closers.reverse()) await close();
+      } catch (error) {
+        logger.error("Error during shutdown:", error);
+      }
+      process.exit(0);
+    };
+    process.once("SIGINT", () => shutdown("SIGINT"));
+    process.once("SIGTERM", () => shutdown("SIGTERM"));
 
-    await server.connect(transport);
     logger.info(`Plait MCP server running on ${transportMode}`);
-
-    // Keep the process running
-    process.stdin.resume();
   } catch (error) {
     logger.error("Error starting server:", error);
     process.stderr.write(
@@ -446,8 +1236,12 @@ if (process.env.DEBUG === "true") {
   logger.debug("Debug mode enabled");
 }
 
-// Start the server if this file is run directly
-if (fileURLToPath(import.meta.url) === process.argv[1]) {
+// Start the server if this file is run directly, also through the symlink
+// npm creates for the bin entry
+if (
+  process.argv[1] &&
+  fileURLToPath(import.meta.url) === fs.realpathSync(process.argv[1])
+) {
   runServer().catch((error) => {
     logger.error("Failed to start server:", error);
     process.exit(1);
@@ -0,0 +1,541 @@
+import {
+  ArrowLineMarkerType,
+  ArrowLineShapes,
+  GeometryShapes,
+  generateId,
+  Point,
+  PointOfRectangle,
+  ServerArrowLineElement,
+  ServerGeometryElement,
+  TextAlign,
+} from "./plait-types.js";
+import { connectionPoint } from "./routing.js";
+import { shapeSizeForText } from "./text-metrics.js";
+
+export type LayoutDirection = "TB" | "LR";
+
+export type LayoutAlgorithm = "layered" | "tree" | "grid";
+
+export interface LayoutNode {
+  id: string;
+  text: string;
+  shape?: GeometryShapes;
+  width?: number;
+  height?: number;
+  fill?: string;
+  strokeColor?: string;
+}
+
+export interface LayoutEdge {
+  id?: string;
+  from: string;
+  to: string;
+  label?: string;
+  shape?: ArrowLineShapes;
+  marker?: ArrowLineMarkerType;
+}
+
+export interface LayoutOptions {
+  direction?: LayoutDirection;
+  algorithm?: LayoutAlgorithm;
+  origin?: Point;
+  nodeGap?: number;
+  layerGap?: number;
+  columns?: number;
+}
+
+export interface LayoutResult {
+  geometries: ServerGeometryElement[];
+  arrowLines: ServerArrowLineElement[];
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const MIN_NODE_WIDTH = 120;
+const MIN_NODE_HEIGHT = 60;
+const DEFAULT_NODE_GAP = 80;
+const DEFAULT_LAYER_GAP = 160;
+const ORDERING_SWEEPS = 4;
+
+// The size given, or one that fits the node's wrapped text
+function nodeSize(node: LayoutNode): Size {
+  const fit = shapeSizeForText(
+    node.text,
+    node.shape || GeometryShapes.rectangle
+  );
+  return {
+    width: node.width ?? Math.max(MIN_NODE_WIDTH, fit.width),
+    height: node.height ?? Math.max(MIN_NODE_HEIGHT, fit.height),
+  };
+}
+
+// Split the graph into the edges used for ranking and the ones closing a cycle
+function breakCycles(
+  nodeIds: string[],
+  edges: LayoutEdge[]
+): { forward: LayoutEdge[]; backward: Set<LayoutEdge> } {
+  const outgoing = new Map<string, LayoutEdge[]>(nodeIds.map((id) => [id, []]));
+  edges.forEach((edge) => outgoing.get(edge.from)!.push(edge));
+
+  const state = new Map<string, "visiting" | "done">();
+  const backward = new Set<LayoutEdge>();
+  const visit = (id: string): void => {
+    state.set(id, "visiting");
+    outgoing.get(id)!.forEach((edge) => {
+      const next = state.get(edge.to);
+      if (next === "visiting") {
+        backward.add(edge);
+      } else if (next === undefined) {
+        visit(edge.to);
+      }
+    });
+    state.set(id, "done");
+  };
+  nodeIds.forEach((id) => {
+    if (!state.has(id)) visit(id);
+  });
+
+  return {
+    forward: edges.filter(
+      (edge) => !backward.has(edge) && edge.from !== edge.to
+    ),
+    backward,
+  };
+}
+
+// Longest-path ranking on the acyclic part of the graph
+function assignLayers(nodeIds: string[], forward: LayoutEdge[]): string[][] {
+  const layer = new Map<string, number>(nodeIds.map((id) => [id, 0]));
+  const indegree = new Map<string, number>(nodeIds.map((id) => [id, 0]));
+  forward.forEach((edge) => indegree.set(edge.to, indegree.get(edge.to)! + 1));
+
+  const queue = nodeIds.filter((id) => indegree.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    forward
+      .filter((edge) => edge.from === id)
+      .forEach((edge) => {
+        layer.set(edge.to, Math.max(layer.get(edge.to)!, layer.get(id)! + 1));
+        indegree.set(edge.to, indegree.get(edge.to)! - 1);
+        if (indegree.get(edge.to) === 0) queue.push(edge.to);
+      });
+  }
+
+  const layers: string[][] = [];
+  nodeIds.forEach((id) => {
+    const index = layer.get(id)!;
+    (layers[index] ||= []).push(id);
+  });
+  return layers.filter((ids) => ids && ids.length > 0);
+}
+
+// Reduce crossings by sorting every layer on the barycenter of its neighbours
+function orderLayers(layers: string[][], forward: LayoutEdge[]): void {
+  const barycenter = (
+    id: string,
+    neighbours: string[],
+    order: string[]
+  ): number => {
+    const positions = neighbours
+      .map((neighbour) => order.indexOf(neighbour))
+      .filter((position) => position >= 0);
+    return positions.length === 0
+      ? -1
+      : positions.reduce((sum, position) => sum + position, 0) /
+          positions.length;
+  };
+
+  const sortLayer = (
+    index: number,
+    reference: string[],
+    downward: boolean
+  ): void => {
+    const current = layers[index]!;
+    const keys = new Map(
+      current.map((id, position) => {
+        const neighbours = forward
+          .filter((edge) => (downward ? edge.to === id : edge.from === id))
+          .map((edge) => (downward ? edge.from : edge.to));
+        const key = barycenter(id, neighbours, reference);
+        return [id, key < 0 ? position : key];
+      })
+    );
+    current.sort((a, b) => keys.get(a)! - keys.get(b)!);
+  };
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let index = 1; index < layers.length; index++) {
+        sortLayer(index, layers[index - 1]!, true);
+      }
+    } else {
+      for (let index = layers.length - 2; index >= 0; index--) {
+        sortLayer(index, layers[index + 1]!, false);
+      }
+    }
+  }
+}
+
+// Lay out rows (TB) or columns (LR) of nodes, centred on the widest one
+function placeLayers(
+  layers: string[][],
+  sizes: Map<string, Size>,
+  direction: LayoutDirection,
+  nodeGap: number,
+  layerGap: number
+): Map<string, Rect> {
+  const horizontal = direction === "LR";
+  const breadth = (size: Size) => (horizontal ? size.height : size.width);
+  const depth = (size: Size) => (horizontal ? size.width : size.height);
+
+  const layerBreadths = layers.map(
+    (ids) =>
+      ids.reduce((sum, id) => sum + breadth(sizes.get(id)!), 0) +
+      nodeGap * (ids.length - 1)
+  );
+  const maxBreadth = Math.max(...layerBreadths);
+
+  const rects = new Map<string, Rect>();
+  let main = 0;
+  layers.forEach((ids, index) => {
+    const thickness = Math.max(...ids.map((id) => depth(sizes.get(id)!)));
+    let cross = (maxBreadth - layerBreadths[index]!) / 2;
+    ids.forEach((id) => {
+      const size = sizes.get(id)!;
+      // Centre each node within the thickness of its layer
+      const offset = main + (thickness - depth(size)) / 2;
+      rects.set(id, {
+        x: horizontal ? offset : cross,
+        y: horizontal ? cross : offset,
+        width: size.width,
+        height: size.height,
+      });
+      cross += breadth(size) + nodeGap;
+    });
+    main += thickness + layerGap;
+  });
+  return rects;
+}
+
+function layoutLayered(
+  nodeIds: string[],
+  edges: LayoutEdge[],
+  sizes: Map<string, Size>,
+  direction: LayoutDirection,
+  nodeGap: number,
+  layerGap: number
+): Map<string, Rect> {
+  const { forward } = breakCycles(nodeIds, edges);
+  const layers = assignLayers(nodeIds, forward);
+  orderLayers(layers, forward);
+  return placeLayers(layers, sizes, direction, nodeGap, layerGap);
+}
+
+function layoutTree(
+  nodeIds: string[],
+  edges: LayoutEdge[],
+  sizes: Map<string, Size>,
+  direction: LayoutDirection,
+  nodeGap: number,
+  layerGap: number
+): Map<string, Rect> {
+  const horizontal = direction === "LR";
+  const breadth = (id: string) =>
+    horizontal ? sizes.get(id)!.height : sizes.get(id)!.width;
+  const depthOf = (id: string) =>
+    horizontal ? sizes.get(id)!.width : sizes.get(id)!.height;
+
+  // Spanning forest: the first edge reaching a node makes it a child
+  const children = new Map<string, string[]>(nodeIds.map((id) => [id, []]));
+  const { forward } = breakCycles(nodeIds, edges);
+  const roots = nodeIds.filter((id) => !forward.some((edge) => edge.to === id));
+  const queue = [...roots];
+  const seen = new Set(roots);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    forward
+      .filter((edge) => edge.from === id && !seen.has(edge.to))
+      .forEach((edge) => {
+        seen.add(edge.to);
+        children.get(id)!.push(edge.to);
+        queue.push(edge.to);
+      });
+  }
+  nodeIds.forEach((id) => {
+    if (!seen.has(id)) roots.push(id);
+  });
+
+  const depths = new Map<string, number>();
+  const setDepth = (id: string, level: number): void => {
+    depths.set(id, level);
+    children.get(id)!.forEach((child) => setDepth(child, level + 1));
+  };
+  roots.forEach((root) => setDepth(root, 0));
+
+  const levelThickness: number[] = [];
+  depths.forEach((level, id) => {
+    levelThickness[level] = Math.max(levelThickness[level] ?? 0, depthOf(id));
+  });
+  const levelOffset: number[] = [];
+  levelThickness.reduce((offset, thickness, level) => {
+    levelOffset[level] = offset;
+    return offset + thickness + layerGap;
+  }, 0);
+
+  const subtreeBreadth = new Map<string, number>();
+  const measure = (id: string): number => {
+    const kids = children.get(id)!;
+    const kidsBreadth =
+      kids.reduce((sum, child) => sum + measure(child), 0) +
+      nodeGap * Math.max(0, kids.length - 1);
+    const value = Math.max(breadth(id), kidsBreadth);
+    subtreeBreadth.set(id, value);
+    return value;
+  };
+
+  const rects = new Map<string, Rect>();
+  const place = (id: string, start: number): void => {
+    const span = subtreeBreadth.get(id)!;
+    const level = depths.get(id)!;
+    const cross = start + (span - breadth(id)) / 2;
+    const main =
+      levelOffset[level]! + (levelThickness[level]! - depthOf(id)) / 2;
+    const size = sizes.get(id)!;
+    rects.set(id, {
+      x: horizontal ? main : cross,
+      y: horizontal ? cross : main,
+      width: size.width,
+      height: size.height,
+    });
+
+    const kids = children.get(id)!;
+    const kidsBreadth =
+      kids.reduce((sum, child) => sum + subtreeBreadth.get(child)!, 0) +
+      nodeGap * Math.max(0, kids.length - 1);
+    let childStart = start + (span - kidsBreadth) / 2;
+    kids.forEach((child) => {
+      place(child, childStart);
+      childStart += subtreeBreadth.get(child)! + nodeGap;
+    });
+  };
+
+  let start = 0;
+  roots.forEach((root) => {
+    const span = measure(root);
+    place(root, start);
+    start += span + nodeGap;
+  });
+  return rects;
+}
+
+function layoutGrid(
+  nodeIds: string[],
+  sizes: Map<string, Size>,
+  direction: LayoutDirection,
+  nodeGap: number,
+  columns?: number
+): Map<string, Rect> {
+  const perLine = Math.max(1, columns ?? Math.ceil(Math.sqrt(nodeIds.length)));
+  const cellWidth = Math.max(...nodeIds.map((id) => sizes.get(id)!.width));
+  const cellHeight = Math.max(...nodeIds.map((id) => sizes.get(id)!.height));
+
+  const rects = new Map<string, Rect>();
+  nodeIds.forEach((id, index) => {
+    // TB fills rows first, LR fills columns first
+    const line = Math.floor(index / perLine);
+    const slot = index % perLine;
+    const column = direction === "LR" ? line : slot;
+    const row = direction === "LR" ? slot : line;
+    const size = sizes.get(id)!;
+    rects.set(id, {
+      x: column * (cellWidth + nodeGap) + (cellWidth - size.width) / 2,
+      y: row * (cellHeight + nodeGap) + (cellHeight - size.height) / 2,
+      width: size.width,
+      height: size.height,
+    });
+  });
+  return rects;
+}
+
+/**
+ * Pick the connection sides of an edge: along the layout direction when the
+ * target comes after the source, side by side within the same layer, and
+ * around the outside for edges pointing back.
+ */
+function pickConnections(
+  source: Rect,
+  target: Rect,
+  direction: LayoutDirection
+): [PointOfRectangle, PointOfRectangle] {
+  const horizontal = direction === "LR";
+  const sourceEnd = horizontal
+    ? source.x + source.width
+    : source.y + source.height;
+  const sourceStart = horizontal ? source.x : source.y;
+  const targetStart = horizontal ? target.x : target.y;
+  const targetEnd = horizontal
+    ? target.x + target.width
+    : target.y + target.height;
+
+  if (targetStart >= sourceEnd) {
+    return horizontal
+      ? [
+          [1, 0.5],
+          [0, 0.5],
+        ]
+      : [
+          [0.5, 1],
+          [0.5, 0],
+        ];
+  }
+  if (targetEnd <= sourceStart) {
+    return horizontal
+      ? [
+          [0.5, 1],
+          [0.5, 1],
+        ]
+      : [
+          [1, 0.5],
+          [1, 0.5],
+        ];
+  }
+  const crossForward = horizontal ? target.y > source.y : target.x > source.x;
+  if (horizontal) {
+    return crossForward
+      ? [
+          [0.5, 1],
+          [0.5, 0],
+        ]
+      : [
+          [0.5, 0],
+          [0.5, 1],
+        ];
+  }
+  return crossForward
+    ? [
+        [1, 0.5],
+        [0, 0.5],
+      ]
+    : [
+        [0, 0.5],
+        [1, 0.5],
+      ];
+}
+
+/**
+ * Compute positions and sizes for a node/edge graph and turn it into geometry
+ * elements and elbow arrow-lines bound to them.
+ */
+export function layoutDiagram(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions = {}
+): LayoutResult {
+  const direction = options.direction || "TB";
+  const algorithm = options.algorithm || "layered";
+  const [originX, originY] = options.origin || [100, 100];
+  const nodeGap = options.nodeGap ?? DEFAULT_NODE_GAP;
+  const layerGap = options.layerGap ?? DEFAULT_LAYER_GAP;
+
+  if (nodes.length === 0) {
+    throw new Error("Layout needs at least one node");
+  }
+  const nodeIds = nodes.map((node) => node.id);
+  const known = new Set<string>();
+  nodeIds.forEach((id) => {
+    if (known.has(id)) throw new Error(`Duplicate node id: ${id}`);
+    known.add(id);
+  });
+  edges.forEach((edge) => {
+    [edge.from, edge.to].forEach((id) => {
+      if (!known.has(id))
+        throw new Error(`Edge references unknown node: ${id}`);
+    });
+  });
+
+  const sizes = new Map(nodes.map((node) => [node.id, nodeSize(node)]));
+  let rects: Map<string, Rect>;
+  switch (algorithm) {
+    case "tree":
+      rects = layoutTree(nodeIds, edges, sizes, direction, nodeGap, layerGap);
+      break;
+    case "grid":
+      rects = layoutGrid(nodeIds, sizes, direction, nodeGap, options.columns);
+      break;
+    case "layered":
+      rects = layoutLayered(
+        nodeIds,
+        edges,
+        sizes,
+        direction,
+        nodeGap,
+        layerGap
+      );
+      break;
+    default:
+      throw new Error(`Unknown layout algorithm: ${algorithm}`);
+  }
+  rects.forEach((rect) => {
+    rect.x = Math.round(rect.x + originX);
+    rect.y = Math.round(rect.y + originY);
+  });
+
+  const geometries = nodes.map((node): ServerGeometryElement => {
+    const rect = rects.get(node.id)!;
+    return {
+      id: node.id,
+      type: "geometry",
+      shape: node.shape || GeometryShapes.rectangle,
+      points: [
+        [rect.x, rect.y],
+        [rect.x + rect.width, rect.y + rect.height],
+      ],
+      text: node.text,
+      textAlign: TextAlign.center,
+      ...(node.fill && { fill: node.fill }),
+      ...(node.strokeColor && { strokeColor: node.strokeColor }),
+    };
+  });
+
+  const arrowLines = edges.map((edge): ServerArrowLineElement => {
+    const sourceRect = rects.get(edge.from)!;
+    const targetRect = rects.get(edge.to)!;
+    const [sourceConnection, targetConnection] = pickConnections(
+      sourceRect,
+      targetRect,
+      direction
+    );
+    return {
+      id: edge.id || generateId(),
+      type: "arrow-line",
+      shape: edge.shape || ArrowLineShapes.elbow,
+      points: [
+        connectionPoint(sourceRect, sourceConnection),
+        connectionPoint(targetRect, targetConnection),
+      ],
+      texts: edge.label ? [{ text: edge.label, position: 0.5 }] : [],
+      source: {
+        boundId: edge.from,
+        connection: sourceConnection,
+        marker: ArrowLineMarkerType.none,
+      },
+      target: {
+        boundId: edge.to,
+        connection: targetConnection,
+        marker: edge.marker || ArrowLineMarkerType.arrow,
+      },
+    };
+  });
+
+  return { geometries, arrowLines };
+}
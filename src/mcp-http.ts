@@ -0,0 +1,231 @@
+import express, { NextFunction, Request, Response } from "express";
+import { createServer, Server as HttpServer } from "http";
+import { randomUUID } from "crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { hasRole, TokenAuth } from "./auth.js";
+import logger from "./utils/logger.js";
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  // Tokens of the MCP clients, auth is off when it has none
+  auth: TokenAuth;
+}
+
+export interface HttpTransportHandle {
+  close(): Promise<void>;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+// JSON-RPC error body for requests that can not be routed to a session
+function sendJsonRpcError(res: Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Serve MCP over HTTP: Streamable HTTP on /mcp, plus the older HTTP+SSE
+ * transport on /sse and /messages for clients that do not support it yet.
+ * Every session gets its own MCP server instance from `createMcpServer`.
+ */
+export async function startHttpTransport(
+  createMcpServer: () => Server,
+  options: HttpTransportOptions
+): Promise<HttpTransportHandle> {
+  const app = express();
+  app.use(express.json({ limit: "10mb" }));
+
+  // The tools write to the boards and to files, so every MCP request needs
+  // an editor token, SSE clients send it with the stream and every message
+  app.use(
+    ["/mcp", "/sse", "/messages"],
+    (req: Request, res: Response, next: NextFunction) => {
+      const grant = options.auth.authenticate(TokenAuth.tokenOf(req));
+      if (!grant) {
+        res.set("WWW-Authenticate", "Bearer");
+        return sendJsonRpcError(
+          res,
+          401,
+          "Authentication required, send an Authorization: Bearer <token> header"
+        );
+      }
+      if (!hasRole(grant, "editor")) {
+        return sendJsonRpcError(
+          res,
+          403,
+          `${grant.name} (${grant.role}) can not call MCP tools, that takes the editor role`
+        );
+      }
+      next();
+    }
+  );
+
+  const sessions = new Map<string, Session>();
+
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    await session.server.close();
+    logger.info(`MCP session closed: ${sessionId}`);
+  };
+
+  // Streamable HTTP: the initialize request opens a session, later requests
+  // carry its id in the mcp-session-id header
+  app.post("/mcp", async (req: Request, res: Response) => {
+    try {
+      const sessionId = req.header("mcp-session-id");
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+
+      if (session) {
+        if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+          return sendJsonRpcError(
+            res,
+            400,
+            "Session uses the SSE transport, post to /messages instead"
+          );
+        }
+        await session.transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (sessionId || !isInitializeRequest(req.body)) {
+        return sendJsonRpcError(
+          res,
+          sessionId ? 404 : 400,
+          sessionId
+            ? `Session ${sessionId} not found`
+            : "No valid session ID provided"
+        );
+      }
+
+      const server = createMcpServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (newSessionId) => {
+          sessions.set(newSessionId, { server, transport });
+          logger.info(`MCP session opened (streamable HTTP): ${newSessionId}`);
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          closeSession(transport.sessionId).catch((error) =>
+            logger.error("Error closing MCP session:", error)
+          );
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      logger.error("Error handling MCP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  });
+
+  // Server-to-client notification stream and session termination
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    try {
+      const sessionId = req.header("mcp-session-id");
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+      if (
+        !session ||
+        !(session.transport instanceof StreamableHTTPServerTransport)
+      ) {
+        return sendJsonRpcError(res, 404, "Invalid or missing session ID");
+      }
+      await session.transport.handleRequest(req, res);
+    } catch (error) {
+      logger.error("Error handling MCP session request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  };
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+
+  // Deprecated HTTP+SSE transport
+  app.get("/sse", async (req: Request, res: Response) => {
+    try {
+      const server = createMcpServer();
+      const transport = new SSEServerTransport("/messages", res);
+      sessions.set(transport.sessionId, { server, transport });
+      logger.info(`MCP session opened (SSE): ${transport.sessionId}`);
+      res.on("close", () => {
+        closeSession(transport.sessionId).catch((error) =>
+          logger.error("Error closing MCP session:", error)
+        );
+      });
+      await server.connect(transport);
+    } catch (error) {
+      logger.error("Error opening SSE stream:", error);
+      if (!res.headersSent) {
+        res.status(500).end();
+      }
+    }
+  });
+
+  app.post("/messages", async (req: Request, res: Response) => {
+    try {
+      const sessionId = req.query.sessionId as string | undefined;
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+      if (!session || !(session.transport instanceof SSEServerTransport)) {
+        return sendJsonRpcError(res, 404, `Session ${sessionId} not found`);
+      }
+      await session.transport.handlePostMessage(req, res, req.body);
+    } catch (error) {
+      logger.error("Error handling SSE message:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  });
+
+  app.get("/health", (req: Request, res: Response) => {
+    res.json({
+      status: "healthy",
+      timestamp: new Date().toISOString(),
+      sessions: sessions.size,
+    });
+  });
+
+  const httpServer: HttpServer = createServer(app);
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  logger.info(
+    `MCP HTTP transport listening on http://${options.host}:${options.port}/mcp (SSE fallback on /sse)`
+  );
+  if (!options.auth.enabled) {
+    logger.warn(
+      "MCP token auth is off, anyone who can reach the MCP port can call every tool. Set MCP_TOKENS or MCP_AUTH_FILE to turn it on"
+    );
+  }
+
+  return {
+    async close(): Promise<void> {
+      for (const sessionId of Array.from(sessions.keys())) {
+        await closeSession(sessionId);
+      }
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      logger.info("MCP HTTP transport stopped");
+    },
+  };
+}
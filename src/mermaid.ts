@@ -0,0 +1,636 @@
+import {
+  ArrowLineMarkerType,
+  GeometryShapes,
+  generateId,
+  Point,
+  ServerArrowLineElement,
+  ServerElement,
+  ServerGeometryElement,
+  StrokeStyle,
+  TextAlign,
+} from "./plait-types.js";
+import {
+  layoutDiagram,
+  LayoutAlgorithm,
+  LayoutEdge,
+  LayoutNode,
+} from "./layout.js";
+import { elementText, plainText } from "./query.js";
+
+export type MermaidDirection = "TB" | "BT" | "LR" | "RL";
+
+export interface MermaidEdge extends LayoutEdge {
+  sourceMarker?: ArrowLineMarkerType;
+  strokeStyle?: StrokeStyle;
+  strokeWidth?: number;
+}
+
+export interface MermaidSubgraph {
+  id: string;
+  title: string;
+  nodeIds: string[];
+  // Ids of the subgraphs nested directly inside this one
+  subgraphIds: string[];
+}
+
+export interface MermaidFlowchart {
+  direction: MermaidDirection;
+  nodes: LayoutNode[];
+  edges: MermaidEdge[];
+  subgraphs: MermaidSubgraph[];
+}
+
+export interface MermaidImportOptions {
+  algorithm?: LayoutAlgorithm;
+  origin?: Point;
+  nodeGap?: number;
+  layerGap?: number;
+}
+
+export interface MermaidImportResult {
+  elements: ServerElement[];
+  // Mermaid node id -> id of the geometry element drawn for it
+  nodeIds: Map<string, string>;
+}
+
+interface NodeShape {
+  open: string;
+  close: string[];
+  shape: GeometryShapes;
+}
+
+interface Link {
+  label?: string;
+  sourceMarker: ArrowLineMarkerType;
+  targetMarker: ArrowLineMarkerType;
+  strokeStyle?: StrokeStyle;
+  strokeWidth?: number;
+  invisible: boolean;
+}
+
+// Longer openers first, Plait only has rectangles, ellipses and diamonds so
+// the other Mermaid shapes fall back to the closest one
+const NODE_SHAPES: NodeShape[] = [
+  { open: "(((", close: [")))"], shape: GeometryShapes.ellipse },
+  { open: "((", close: ["))"], shape: GeometryShapes.ellipse },
+  { open: "([", close: ["])"], shape: GeometryShapes.ellipse },
+  { open: "[[", close: ["]]"], shape: GeometryShapes.rectangle },
+  { open: "[(", close: [")]"], shape: GeometryShapes.rectangle },
+  { open: "[/", close: ["/]", "\\]"], shape: GeometryShapes.rectangle },
+  { open: "[\\", close: ["/]", "\\]"], shape: GeometryShapes.rectangle },
+  { open: "{{", close: ["}}"], shape: GeometryShapes.diamond },
+  { open: "[", close: ["]"], shape: GeometryShapes.rectangle },
+  { open: "(", close: [")"], shape: GeometryShapes.rectangle },
+  { open: "{", close: ["}"], shape: GeometryShapes.diamond },
+  { open: ">", close: ["]"], shape: GeometryShapes.rectangle },
+];
+
+const HEADER_PATTERN = /^(?:flowchart|graph)(?:\s+(TD|TB|BT|LR|RL))?$/i;
+const SUBGRAPH_PATTERN = /^subgraph(?:\s+(.*))?$/;
+const IGNORED_PATTERN =
+  /^(?:classDef|class|style|linkStyle|click|direction|accTitle|accDescr)\b/;
+const NODE_ID_PATTERN = /^[\p{L}\p{N}_]+/u;
+// -- text -->, == text ==>, -. text .->
+const LABELED_LINK_PATTERN =
+  /^(<)?(--|==|-\.)\s+(.+?)\s*(-{2,}|={2,}|\.-+)(>|[ox](?=\s))?/;
+// -->, ---, ==>, -.->, <-->, --o, --x, ~~~ and an optional |text|
+const LINK_PATTERN =
+  /^(<)?(-{2,}|={2,}|-\.+-|~{3,})(>|[ox](?=\s))?(?:\s*\|([^|]*)\|)?/;
+
+const THICK_STROKE_WIDTH = 4;
+const FRAME_PADDING = 24;
+const FRAME_TITLE_HEIGHT = 32;
+
+function unquote(text: string): string {
+  const trimmed = text.trim();
+  const unwrapped =
+    trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')
+      ? trimmed.slice(1, -1)
+      : trimmed;
+  return unwrapped
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/#quot;/g, '"')
+    .trim();
+}
+
+// Plait has no circle or cross markers, the closest ones are used
+function linkMarker(head: string | undefined): ArrowLineMarkerType {
+  switch (head) {
+    case ">":
+      return ArrowLineMarkerType.arrow;
+    case "x":
+      return ArrowLineMarkerType.singleSlash;
+    default:
+      return ArrowLineMarkerType.none;
+  }
+}
+
+function createLink(
+  reverse: string | undefined,
+  stroke: string,
+  head: string | undefined,
+  label: string | undefined
+): Link {
+  const targetMarker = linkMarker(head);
+  return {
+    label: label && unquote(label),
+    sourceMarker:
+      reverse && targetMarker !== ArrowLineMarkerType.none
+        ? targetMarker
+        : ArrowLineMarkerType.none,
+    targetMarker,
+    strokeStyle: stroke.includes(".") ? StrokeStyle.dotted : undefined,
+    strokeWidth: stroke.includes("=") ? THICK_STROKE_WIDTH : undefined,
+    invisible: stroke.startsWith("~"),
+  };
+}
+
+// Split a line at semicolons that are not inside quotes or node brackets
+function splitStatements(line: string): string[] {
+  const statements: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  Array.from(line).forEach((char, index) => {
+    if (char === '"') quoted = !quoted;
+    if (quoted) return;
+    if ("[({".includes(char)) depth++;
+    if ("])}".includes(char)) depth = Math.max(0, depth - 1);
+    if (char === ";" && depth === 0) {
+      statements.push(line.slice(start, index));
+      start = index + 1;
+    }
+  });
+  statements.push(line.slice(start));
+  return statements.map((statement) => statement.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a Mermaid `flowchart` / `graph` diagram: node shapes, edge labels,
+ * link styles, chains (`A --> B --> C`), `&` groups, subgraphs and the
+ * direction. Styling statements (classDef, style, click, ...) are ignored.
+ */
+export function parseMermaidFlowchart(source: string): MermaidFlowchart {
+  const nodes = new Map<string, LayoutNode>();
+  const edges: MermaidEdge[] = [];
+  const subgraphs = new Map<string, MermaidSubgraph>();
+  const subgraphStack: MermaidSubgraph[] = [];
+  const assigned = new Set<string>();
+  let direction: MermaidDirection | null = null;
+
+  const declareNode = (id: string, text?: string, shape?: GeometryShapes) => {
+    const existing = nodes.get(id);
+    if (!existing) {
+      nodes.set(id, { id, text: text ?? id, shape });
+    } else if (text !== undefined) {
+      existing.text = text;
+      existing.shape = shape;
+    }
+    const current = subgraphStack[subgraphStack.length - 1];
+    if (current && !assigned.has(id)) {
+      assigned.add(id);
+      current.nodeIds.push(id);
+    }
+  };
+
+  const parseStatement = (statement: string, lineNumber: number): void => {
+    let rest = statement;
+    const fail = (message: string): never => {
+      throw new Error(`Line ${lineNumber}: ${message}: ${statement}`);
+    };
+
+    const readNode = (): string => {
+      rest = rest.trimStart();
+      const idMatch = NODE_ID_PATTERN.exec(rest);
+      if (!idMatch) return fail("Expected a node id");
+      const id = idMatch[0];
+      rest = rest.slice(id.length);
+
+      const nodeShape = NODE_SHAPES.find(({ open }) => rest.startsWith(open));
+      if (!nodeShape) {
+        declareNode(id);
+      } else {
+        rest = rest.slice(nodeShape.open.length);
+        // Quoted text may contain the closing bracket
+        let searchFrom = 0;
+        if (rest.trimStart().startsWith('"')) {
+          const quoteStart = rest.indexOf('"');
+          const quoteEnd = rest.indexOf('"', quoteStart + 1);
+          if (quoteEnd === -1) return fail("Unterminated string");
+          searchFrom = quoteEnd + 1;
+        }
+        const closings = nodeShape.close
+          .map((close) => ({ close, index: rest.indexOf(close, searchFrom) }))
+          .filter(({ index }) => index !== -1)
+          .sort((a, b) => a.index - b.index);
+        const closing = closings[0];
+        if (!closing) return fail(`Expected ${nodeShape.close[0]}`);
+        declareNode(id, unquote(rest.slice(0, closing.index)), nodeShape.shape);
+        rest = rest.slice(closing.index + closing.close.length);
+      }
+      rest = rest.replace(/^:::[\w-]+/, "");
+      return id;
+    };
+
+    const readGroup = (): string[] => {
+      const ids = [readNode()];
+      while (/^\s*&/.test(rest)) {
+        rest = rest.replace(/^\s*&/, "");
+        ids.push(readNode());
+      }
+      return ids;
+    };
+
+    const readLink = (): Link | null => {
+      rest = rest.trimStart();
+      const labeled = LABELED_LINK_PATTERN.exec(rest);
+      if (labeled) {
+        rest = rest.slice(labeled[0].length);
+        return createLink(
+          labeled[1],
+          labeled[2]! + labeled[4]!,
+          labeled[5],
+          labeled[3]
+        );
+      }
+      const plain = LINK_PATTERN.exec(rest);
+      if (plain) {
+        rest = rest.slice(plain[0].length);
+        return createLink(plain[1], plain[2]!, plain[3], plain[4]);
+      }
+      return null;
+    };
+
+    let from = readGroup();
+    let link = readLink();
+    while (link) {
+      const to = readGroup();
+      const current = link;
+      if (!current.invisible) {
+        from.forEach((source) =>
+          to.forEach((target) =>
+            edges.push({
+              from: source,
+              to: target,
+              ...(current.label && { label: current.label }),
+              marker: current.targetMarker,
+              sourceMarker: current.sourceMarker,
+              ...(current.strokeStyle && { strokeStyle: current.strokeStyle }),
+              ...(current.strokeWidth && { strokeWidth: current.strokeWidth }),
+            })
+          )
+        );
+      }
+      from = to;
+      link = readLink();
+    }
+    if (rest.trim()) fail(`Unexpected "${rest.trim()}"`);
+  };
+
+  source.split(/\r?\n/).forEach((line, index) => {
+    const lineNumber = index + 1;
+    if (line.trim().startsWith("%%")) return;
+
+    splitStatements(line).forEach((statement) => {
+      if (direction === null) {
+        const header = HEADER_PATTERN.exec(statement);
+        if (!header) {
+          throw new Error(
+            `Line ${lineNumber}: only flowchart diagrams are supported, expected "flowchart TD" or "graph LR"`
+          );
+        }
+        const value = (header[1] || "TB").toUpperCase();
+        direction = (value === "TD" ? "TB" : value) as MermaidDirection;
+        return;
+      }
+
+      const subgraph = SUBGRAPH_PATTERN.exec(statement);
+      if (subgraph) {
+        const declaration = (subgraph[1] || "").trim();
+        const withTitle = /^([\p{L}\p{N}_]+)\s*\[(.*)\]$/u.exec(declaration);
+        const id = withTitle
+          ? withTitle[1]!
+          : /^[\p{L}\p{N}_]+$/u.test(declaration)
+            ? declaration
+            : `subgraph${subgraphs.size + 1}`;
+        if (subgraphs.has(id)) {
+          throw new Error(`Line ${lineNumber}: duplicate subgraph id: ${id}`);
+        }
+        const created: MermaidSubgraph = {
+          id,
+          title: unquote(withTitle ? withTitle[2]! : declaration),
+          nodeIds: [],
+          subgraphIds: [],
+        };
+        subgraphStack[subgraphStack.length - 1]?.subgraphIds.push(id);
+        subgraphs.set(id, created);
+        subgraphStack.push(created);
+        return;
+      }
+      if (statement === "end") {
+        if (!subgraphStack.pop()) {
+          throw new Error(`Line ${lineNumber}: "end" without a subgraph`);
+        }
+        return;
+      }
+      if (IGNORED_PATTERN.test(statement)) return;
+
+      parseStatement(statement, lineNumber);
+    });
+  });
+
+  if (direction === null) {
+    throw new Error("The Mermaid source is empty");
+  }
+  if (subgraphStack.length > 0) {
+    throw new Error(`Subgraph ${subgraphStack[0]!.id} is missing its "end"`);
+  }
+  subgraphs.forEach((subgraph) => {
+    if (nodes.has(subgraph.id)) {
+      throw new Error(
+        `Links to subgraphs are not supported: ${subgraph.id} is a subgraph`
+      );
+    }
+  });
+  if (nodes.size === 0) {
+    throw new Error("The flowchart has no nodes");
+  }
+
+  return {
+    direction,
+    nodes: Array.from(nodes.values()),
+    edges,
+    subgraphs: Array.from(subgraphs.values()),
+  };
+}
+
+// Mirror the laid out diagram, the layout only goes top down or left to right
+function mirror(
+  geometries: ServerGeometryElement[],
+  arrowLines: ServerArrowLineElement[],
+  axis: 0 | 1
+): void {
+  const values = geometries.flatMap((geometry) =>
+    geometry.points.map((point) => point[axis])
+  );
+  const sum = Math.min(...values) + Math.max(...values);
+  const flip = (point: Point): Point => {
+    const flipped: Point = [point[0], point[1]];
+    flipped[axis] = sum - point[axis];
+    return flipped;
+  };
+
+  geometries.forEach((geometry) => {
+    const [start, end] = geometry.points.map(flip) as [Point, Point];
+    geometry.points = [
+      [Math.min(start[0], end[0]), Math.min(start[1], end[1])],
+      [Math.max(start[0], end[0]), Math.max(start[1], end[1])],
+    ];
+  });
+  arrowLines.forEach((arrowLine) => {
+    arrowLine.points = arrowLine.points.map(flip);
+    [arrowLine.source, arrowLine.target].forEach((handle) => {
+      if (handle.connection) {
+        const connection: Point = [...handle.connection];
+        connection[axis] = 1 - connection[axis];
+        handle.connection = connection;
+      }
+    });
+  });
+}
+
+/**
+ * Lay out a parsed flowchart as geometry and arrow-line elements with fresh
+ * ids. Subgraphs become dashed frames with their title above the top left
+ * corner, drawn behind the nodes.
+ */
+export function mermaidToElements(
+  chart: MermaidFlowchart,
+  options: MermaidImportOptions = {}
+): MermaidImportResult {
+  const nodeIds = new Map(chart.nodes.map((node) => [node.id, generateId()]));
+  const { geometries, arrowLines } = layoutDiagram(
+    chart.nodes.map((node) => ({ ...node, id: nodeIds.get(node.id)! })),
+    chart.edges.map(({ from, to, label, marker }) => ({
+      from: nodeIds.get(from)!,
+      to: nodeIds.get(to)!,
+      label,
+      marker,
+    })),
+    {
+      direction:
+        chart.direction === "LR" || chart.direction === "RL" ? "LR" : "TB",
+      algorithm: options.algorithm,
+      origin: options.origin,
+      nodeGap: options.nodeGap,
+      layerGap: options.layerGap,
+    }
+  );
+
+  if (chart.direction === "RL") mirror(geometries, arrowLines, 0);
+  if (chart.direction === "BT") mirror(geometries, arrowLines, 1);
+
+  // Arrow lines come back in the order of the edges
+  arrowLines.forEach((arrowLine, index) => {
+    const edge = chart.edges[index]!;
+    arrowLine.source.marker = edge.sourceMarker || ArrowLineMarkerType.none;
+    if (edge.strokeStyle) arrowLine.strokeStyle = edge.strokeStyle;
+    if (edge.strokeWidth) arrowLine.strokeWidth = edge.strokeWidth;
+  });
+
+  const geometryById = new Map(
+    geometries.map((geometry) => [geometry.id, geometry])
+  );
+  const subgraphById = new Map(
+    chart.subgraphs.map((subgraph) => [subgraph.id, subgraph])
+  );
+  const frameBounds = new Map<string, [Point, Point]>();
+  const computeFrame = (subgraph: MermaidSubgraph): [Point, Point] | null => {
+    const cached = frameBounds.get(subgraph.id);
+    if (cached) return cached;
+    const corners = [
+      ...subgraph.nodeIds.flatMap(
+        (id) => geometryById.get(nodeIds.get(id)!)!.points
+      ),
+      ...subgraph.subgraphIds.flatMap((id) => {
+        const inner = computeFrame(subgraphById.get(id)!);
+        return inner
+          ? [[inner[0][0], inner[0][1] - FRAME_TITLE_HEIGHT] as Point, inner[1]]
+          : [];
+      }),
+    ];
+    if (corners.length === 0) return null;
+    const bounds: [Point, Point] = [
+      [
+        Math.min(...corners.map((point) => point[0])) - FRAME_PADDING,
+        Math.min(...corners.map((point) => point[1])) - FRAME_PADDING,
+      ],
+      [
+        Math.max(...corners.map((point) => point[0])) + FRAME_PADDING,
+        Math.max(...corners.map((point) => point[1])) + FRAME_PADDING,
+      ],
+    ];
+    frameBounds.set(subgraph.id, bounds);
+    return bounds;
+  };
+
+  // Outer frames first so that inner ones are drawn on top of them
+  const frames = chart.subgraphs.flatMap(
+    (subgraph): ServerGeometryElement[] => {
+      const bounds = computeFrame(subgraph);
+      if (!bounds) return [];
+      const [[x1, y1], [x2]] = bounds;
+      const frame: ServerGeometryElement = {
+        id: generateId(),
+        type: "geometry",
+        shape: GeometryShapes.rectangle,
+        points: bounds,
+        strokeStyle: StrokeStyle.dashed,
+      };
+      if (!subgraph.title) return [frame];
+      return [
+        frame,
+        {
+          id: generateId(),
+          type: "geometry",
+          shape: GeometryShapes.text,
+          points: [
+            [x1, y1 - FRAME_TITLE_HEIGHT],
+            [x2, y1],
+          ],
+          text: subgraph.title,
+          textAlign: TextAlign.left,
+          autoSize: true,
+        },
+      ];
+    }
+  );
+
+  return {
+    elements: [...frames, ...geometries, ...arrowLines],
+    nodeIds,
+  };
+}
+
+const RESERVED_IDS = new Set([
+  "end",
+  "graph",
+  "flowchart",
+  "subgraph",
+  "class",
+  "classDef",
+  "style",
+  "linkStyle",
+  "click",
+  "direction",
+]);
+
+function quoteLabel(text: string): string {
+  return `"${text.trim().replace(/"/g, "#quot;").replace(/\r?\n/g, "<br>")}"`;
+}
+
+function nodeDeclaration(id: string, geometry: ServerGeometryElement): string {
+  const text = quoteLabel(plainText(geometry.text) || id);
+  switch (geometry.shape) {
+    case GeometryShapes.ellipse:
+      return `${id}([${text}])`;
+    case GeometryShapes.diamond:
+      return `${id}{${text}}`;
+    default:
+      return `${id}[${text}]`;
+  }
+}
+
+function center(geometry: ServerGeometryElement): Point {
+  const [[x1, y1], [x2, y2]] = geometry.points;
+  return [(x1 + x2) / 2, (y1 + y2) / 2];
+}
+
+/**
+ * Turn the graph on a board back into a Mermaid flowchart. Arrow lines bound
+ * to geometries at both ends become edges, geometries become nodes unless
+ * they are unconnected shapes without text (frames) or unconnected text.
+ * Freehand strokes and mind maps are left out.
+ */
+export function exportMermaid(elements: ServerElement[]): string {
+  const geometries = new Map(
+    elements
+      .filter((element) => element.type === "geometry")
+      .map((element) => [element.id, element as ServerGeometryElement])
+  );
+  const arrowLines = (
+    elements.filter(
+      (element) => element.type === "arrow-line"
+    ) as ServerArrowLineElement[]
+  ).filter(
+    (arrowLine) =>
+      geometries.has(arrowLine.source?.boundId || "") &&
+      geometries.has(arrowLine.target?.boundId || "")
+  );
+
+  const connected = new Set(
+    arrowLines.flatMap((arrowLine) => [
+      arrowLine.source.boundId!,
+      arrowLine.target.boundId!,
+    ])
+  );
+  const nodes = Array.from(geometries.values()).filter(
+    (geometry) =>
+      connected.has(geometry.id) ||
+      (geometry.shape !== GeometryShapes.text && !!plainText(geometry.text))
+  );
+
+  const mermaidIds = new Map<string, string>();
+  nodes.forEach((geometry, index) => {
+    const safe =
+      /^[A-Za-z][A-Za-z0-9_]*$/.test(geometry.id) &&
+      !RESERVED_IDS.has(geometry.id);
+    mermaidIds.set(geometry.id, safe ? geometry.id : `n${index + 1}`);
+  });
+
+  // Left to right when the arrows mostly run horizontally
+  let horizontal = 0;
+  let vertical = 0;
+  arrowLines.forEach((arrowLine) => {
+    const [sx, sy] = center(geometries.get(arrowLine.source.boundId!)!);
+    const [tx, ty] = center(geometries.get(arrowLine.target.boundId!)!);
+    horizontal += Math.abs(tx - sx);
+    vertical += Math.abs(ty - sy);
+  });
+
+  const lines = [`flowchart ${horizontal > vertical ? "LR" : "TD"}`];
+  nodes.forEach((geometry) =>
+    lines.push(`    ${nodeDeclaration(mermaidIds.get(geometry.id)!, geometry)}`)
+  );
+  arrowLines.forEach((arrowLine) => {
+    let from = mermaidIds.get(arrowLine.source.boundId!)!;
+    let to = mermaidIds.get(arrowLine.target.boundId!)!;
+    let sourceMarker = arrowLine.source.marker;
+    let targetMarker = arrowLine.target.marker;
+    // Mermaid has no arrows pointing only backwards
+    if (
+      sourceMarker !== ArrowLineMarkerType.none &&
+      targetMarker === ArrowLineMarkerType.none
+    ) {
+      [from, to] = [to, from];
+      [sourceMarker, targetMarker] = [targetMarker, sourceMarker];
+    }
+
+    const dotted =
+      arrowLine.strokeStyle === StrokeStyle.dashed ||
+      arrowLine.strokeStyle === StrokeStyle.dotted;
+    const thick = (arrowLine.strokeWidth || 0) >= THICK_STROKE_WIDTH;
+    let link = dotted ? "-.-" : thick ? "===" : "---";
+    if (targetMarker !== ArrowLineMarkerType.none) {
+      const head = targetMarker === ArrowLineMarkerType.singleSlash ? "x" : ">";
+      link = `${dotted ? "-.-" : thick ? "==" : "--"}${head}`;
+      if (sourceMarker !== ArrowLineMarkerType.none) link = `<${link}`;
+    }
+    const label = elementText(arrowLine).replace(/\n/g, " ").trim();
+    lines.push(
+      `    ${from} ${link}${label ? `|${quoteLabel(label)}|` : ""} ${to}`
+    );
+  });
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,146 @@
+import {
+  generateId,
+  MindElementShape,
+  MindLayoutType,
+  MindNodeElement,
+  MindTopic,
+  Point,
+  ServerMindElement,
+} from "./plait-types.js";
+
+export interface CreateMindOptions {
+  id?: string;
+  point?: Point;
+  layout?: MindLayoutType;
+  shape?: MindElementShape;
+}
+
+interface OutlineItem {
+  level: number;
+  node: MindTopic;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const BULLET_PATTERN = /^([ \t]*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+
+// Tabs count as one indent unit, otherwise the smallest bullet indent does
+function detectIndentUnit(lines: string[]): number {
+  let unit = Infinity;
+  lines.forEach((line) => {
+    const match = BULLET_PATTERN.exec(line);
+    if (!match) return;
+    const indent = match[1]!.replace(/\t/g, "  ").length;
+    if (indent > 0 && indent < unit) unit = indent;
+  });
+  return unit === Infinity ? 2 : unit;
+}
+
+/**
+ * Parse a Markdown outline (headings and nested bullet lists) into a topic tree.
+ * A single top-level item becomes the central topic, several top-level items
+ * are grouped under `title`.
+ */
+export function parseMarkdownOutline(
+  markdown: string,
+  title?: string
+): MindTopic {
+  const lines = markdown.split(/\r?\n/);
+  const indentUnit = detectIndentUnit(lines);
+  const topLevel: MindTopic[] = [];
+  const stack: OutlineItem[] = [];
+  let headingLevel = 0;
+
+  const append = (level: number, text: string): void => {
+    const node: MindTopic = { topic: text.trim(), children: [] };
+    while (stack.length > 0 && stack[stack.length - 1]!.level >= level) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.node.children!.push(node);
+    } else {
+      topLevel.push(node);
+    }
+    stack.push({ level, node });
+  };
+
+  lines.forEach((line) => {
+    if (line.trim() === "" || line.trim().startsWith("```")) return;
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      headingLevel = heading[1]!.length;
+      append(headingLevel, heading[2]!);
+      return;
+    }
+
+    const bullet = BULLET_PATTERN.exec(line);
+    if (bullet) {
+      const indent = bullet[1]!.replace(/\t/g, "  ").length;
+      append(headingLevel + 1 + Math.floor(indent / indentUnit), bullet[2]!);
+      return;
+    }
+
+    // Plain text continues the previous topic, or starts the outline
+    const previous = stack[stack.length - 1];
+    if (previous) {
+      previous.node.topic = `${previous.node.topic} ${line.trim()}`;
+    } else {
+      append(0, line);
+    }
+  });
+
+  if (title) {
+    return { topic: title, children: topLevel };
+  }
+  if (topLevel.length === 0) {
+    throw new Error("Outline is empty");
+  }
+  if (topLevel.length > 1) {
+    throw new Error(
+      `Outline has ${topLevel.length} top-level items, pass a title for the central topic`
+    );
+  }
+  return topLevel[0]!;
+}
+
+function createMindNode(topic: MindTopic): MindNodeElement {
+  if (typeof topic.topic !== "string" || topic.topic.trim() === "") {
+    throw new Error("Every mind map node needs a non-empty topic");
+  }
+  return {
+    id: generateId(),
+    type: "mind_child",
+    data: { topic: topic.topic },
+    children: (topic.children || []).map(createMindNode),
+  };
+}
+
+/**
+ * Build a Plait mind element from a topic tree. Node sizes and positions are
+ * left to the @plait/mind layout engine in the browser, only the position of
+ * the central topic is stored.
+ */
+export function createMindElement(
+  root: MindTopic,
+  options: CreateMindOptions = {}
+): ServerMindElement {
+  const layout = options.layout || MindLayoutType.right;
+  const { data, children } = createMindNode(root);
+  const element: ServerMindElement = {
+    id: options.id || generateId(),
+    type: "mind",
+    shape: options.shape || MindElementShape.roundRectangle,
+    points: [options.point || [0, 0]],
+    layout,
+    data,
+    children,
+  };
+
+  // The standard layout balances first-level branches on both sides
+  if (layout === MindLayoutType.standard) {
+    element.rightNodeCount = Math.ceil(children.length / 2);
+  }
+
+  return element;
+}
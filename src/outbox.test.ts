@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { test } from "node:test";
+import { CanvasRejectedError, HttpCanvasClient } from "./canvas-client.js";
+import { CanvasOutbox, CanvasUnreachableError } from "./outbox.js";
+
+// A canvas server that answers every request with `status`
+async function canvasAnswering(status: number): Promise<Server> {
+  const server = createServer((req, res) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: false, error: `failed with ${status}` }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return server;
+}
+
+function clientOf(server: Server): HttpCanvasClient {
+  const { port } = server.address() as AddressInfo;
+  return new HttpCanvasClient({
+    url: `http://127.0.0.1:${port}`,
+    enabled: true,
+  });
+}
+
+test("a write that keeps failing stops blocking the ones after it", async () => {
+  const delivered: string[] = [];
+  const outbox = new CanvasOutbox(async (entry) => {
+    if (entry.data === "stuck") throw new CanvasUnreachableError("down");
+    delivered.push(entry.data as string);
+  });
+  outbox.enqueue("create", "default", "stuck", "down");
+  outbox.enqueue("create", "default", "next");
+
+  for (let attempt = 0; attempt < 20 && outbox.size > 0; attempt++) {
+    await outbox.flush();
+  }
+  const { pending, failed } = outbox.status();
+  assert.deepEqual(pending, []);
+  assert.deepEqual(
+    failed.map(({ data, attempts }) => [data, attempts]),
+    [["stuck", 20]]
+  );
+  assert.deepEqual(delivered, ["next"]);
+});
+
+test("a server error caused by the write is not retried", async () => {
+  const server = await canvasAnswering(500);
+  try {
+    const client = clientOf(server);
+    await assert.rejects(
+      client.sync("create", { id: "a" }, "default"),
+      CanvasRejectedError
+    );
+    assert.equal(client.outbox.size, 0);
+  } finally {
+    server.close();
+  }
+});
+
+test("a canvas that is down or overloaded gets the write later", async () => {
+  const server = await canvasAnswering(503);
+  try {
+    const client = clientOf(server);
+    const result = await client.sync("create", { id: "a" }, "default");
+    assert.equal(result.status, "queued");
+    assert.equal(client.outbox.size, 1);
+  } finally {
+    server.close();
+  }
+});
+
+test("an update is sent to the path of its encoded id", async () => {
+  const paths: string[] = [];
+  const server = createServer((req, res) => {
+    paths.push(req.url ?? "");
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ success: true }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  try {
+    await clientOf(server).sync("update", { id: "a/b?c" }, "default");
+    assert.equal(paths.length, 1);
+    assert.ok(paths[0]!.endsWith("/elements/a%2Fb%3Fc"), paths[0]);
+  } finally {
+    server.close();
+  }
+});
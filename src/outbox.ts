@@ -0,0 +1,161 @@
+import logger from "./utils/logger.js";
+import { generateId } from "./plait-types.js";
+
+// The first replay waits this long after the canvas could not be reached,
+// every further failed replay twice as long up to MAX_RETRY_DELAY
+const RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60_000;
+
+// An operation still not delivered after this many attempts is given up on,
+// with the backoff that takes about a quarter of an hour
+const MAX_ATTEMPTS = 20;
+
+// Only the latest failed operations are kept for sync_status
+const MAX_FAILED = 50;
+
+export type SyncOperation = "create" | "batch_create" | "update" | "delete";
+
+export interface OutboxEntry {
+  id: string;
+  operation: SyncOperation;
+  boardId: string;
+  data: unknown;
+  queuedAt: string;
+  // Deliveries tried so far, including the one that queued the operation
+  attempts: number;
+  lastError: string | null;
+}
+
+export interface FailedEntry extends OutboxEntry {
+  failedAt: string;
+}
+
+export interface OutboxStatus {
+  pending: OutboxEntry[];
+  failed: FailedEntry[];
+  nextAttemptAt: string | null;
+}
+
+// The canvas server did not answer in time, or answered that it is down or
+// overloaded, so the same operation may well succeed later
+export class CanvasUnreachableError extends Error {}
+
+// Delivers one operation, throwing CanvasUnreachableError when it should be
+// tried again and any other error when the canvas refused it
+export type OutboxSender = (entry: OutboxEntry) => Promise<void>;
+
+/**
+ * Canvas writes that could not be delivered because the canvas server was
+ * unreachable. They are replayed in the order they were made, with backoff,
+ * until the canvas takes them; operations the canvas refuses on replay, or
+ * could not be reached for in MAX_ATTEMPTS tries, are moved to the failed
+ * list. The outbox lives in memory.
+ */
+export class CanvasOutbox {
+  private readonly pending: OutboxEntry[] = [];
+  private readonly failed: FailedEntry[] = [];
+  private retryTimer: NodeJS.Timeout | null = null;
+  private nextAttemptAt: Date | null = null;
+  // Replays in a row that could not reach the canvas
+  private retries = 0;
+  private replaying: Promise<void> | null = null;
+
+  constructor(private readonly send: OutboxSender) {}
+
+  get size(): number {
+    return this.pending.length;
+  }
+
+  // Queue an operation behind the pending ones; `error` is why delivering it
+  // right away failed, none when it was not tried because others are waiting
+  enqueue(
+    operation: SyncOperation,
+    boardId: string,
+    data: unknown,
+    error?: string
+  ): OutboxEntry {
+    const entry: OutboxEntry = {
+      id: generateId(),
+      operation,
+      boardId,
+      data,
+      queuedAt: new Date().toISOString(),
+      attempts: error ? 1 : 0,
+      lastError: error ?? null,
+    };
+    this.pending.push(entry);
+    logger.warn(
+      `Queued ${operation} on board ${boardId} as ${entry.id}, ${this.pending.length} operations waiting for the canvas`
+    );
+    this.scheduleRetry();
+    return entry;
+  }
+
+  // Replay the queue now; resolves when it is empty or the canvas is still
+  // unreachable, in which case the next replay is scheduled
+  flush(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.replay().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  status(): OutboxStatus {
+    return {
+      pending: [...this.pending],
+      failed: [...this.failed],
+      nextAttemptAt: this.nextAttemptAt?.toISOString() ?? null,
+    };
+  }
+
+  // Forget the failed operations, returns how many there were
+  clearFailed(): number {
+    return this.failed.splice(0).length;
+  }
+
+  private async replay(): Promise<void> {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.nextAttemptAt = null;
+
+    while (this.pending.length > 0) {
+      const entry = this.pending[0]!;
+      entry.attempts++;
+      try {
+        await this.send(entry);
+        logger.info(`Replayed ${entry.operation} ${entry.id} to the canvas`);
+      } catch (error) {
+        entry.lastError = (error as Error).message;
+        const unreachable = error instanceof CanvasUnreachableError;
+        if (unreachable && entry.attempts < MAX_ATTEMPTS) {
+          this.retries++;
+          this.scheduleRetry();
+          return;
+        }
+        // Replaying it again would be refused again, or keeps failing, so
+        // the operations after it go ahead without it
+        logger.warn(
+          unreachable
+            ? `Gave up on queued ${entry.operation} ${entry.id} after ${entry.attempts} attempts: ${entry.lastError}`
+            : `Canvas refused queued ${entry.operation} ${entry.id}: ${entry.lastError}`
+        );
+        this.failed.push({ ...entry, failedAt: new Date().toISOString() });
+        if (this.failed.length > MAX_FAILED) this.failed.shift();
+      }
+      this.pending.shift();
+      this.retries = 0;
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+    const delay = Math.min(RETRY_DELAY * 2 ** this.retries, MAX_RETRY_DELAY);
+    this.nextAttemptAt = new Date(Date.now() + delay);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.flush();
+    }, delay).unref();
+  }
+}
@@ -29,6 +29,23 @@ export enum GeometryShapes {
   text = "text",
 }
 
+export enum MindElementShape {
+  roundRectangle = "round-rectangle",
+  underline = "underline",
+}
+
+export enum MindLayoutType {
+  right = "right",
+  left = "left",
+  standard = "standard",
+  upward = "upward",
+  downward = "downward",
+  rightBottomIndented = "right-bottom-indented",
+  rightTopIndented = "right-top-indented",
+  leftTopIndented = "left-top-indented",
+  leftBottomIndented = "left-bottom-indented",
+}
+
 export interface ArrowLineText {
   text: string;
   position: number;
@@ -91,22 +108,76 @@ export interface PlaitDrawArrowLineElement {
   target: ArrowLineHandle;
 }
 
+/**
+ * A node of a mind map as stored on the server, the topic is plain text
+ * and is turned into a rich text paragraph by the frontend
+ */
+export interface MindNodeElement {
+  id: string;
+  type: "mind_child";
+  data: { topic: string };
+  children: MindNodeElement[];
+}
+
+export interface PlaitMindElement {
+  id: "mind";
+  shape: MindElementShape;
+  points: [Point];
+  layout: MindLayoutType;
+  data: { topic: string };
+  children: MindNodeElement[];
+  rightNodeCount?: number;
+}
+
+/**
+ * A topic tree used as input to create a mind map
+ */
+export interface MindTopic {
+  topic: string;
+  children?: MindTopic[];
+}
+
 export type PlaitDrawElement =
   | PlaitDrawGeometryElement
   | PlaitDrawArrowLineElement;
 
-export type PlaitElementType = "geometry" | "arrow-line" | "freehand";
+export type PlaitElementType = "geometry" | "arrow-line" | "freehand" | "mind";
 
 export const PLAIT_ELEMENT_TYPES: Record<string, PlaitElementType> = {
   GEOMETRY: "geometry",
   ARROW_LINE: "arrow-line",
   FREEHAND: "freehand",
+  MIND: "mind",
 } as const;
 
-export interface ServerElement extends Omit<PlaitDrawElementBase, "id"> {
+export interface ServerElement
+  extends Omit<PlaitDrawElementBase, "id" | "shape"> {
   id: string;
   type: PlaitElementType;
-  shape: GeometryShapes | ArrowLineShapes;
+  shape: GeometryShapes | ArrowLineShapes | MindElementShape;
+  source?: ArrowLineHandle;
+  target?: ArrowLineHandle;
+  version?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type ServerGeometryElement = ServerElement &
+  Omit<PlaitDrawGeometryElement, "id"> & { textAlign?: TextAlign };
+
+export type ServerArrowLineElement = ServerElement &
+  Omit<PlaitDrawArrowLineElement, "id">;
+
+export type ServerMindElement = ServerElement &
+  Omit<PlaitMindElement, "id" | "shape"> & { shape: MindElementShape };
+
+export interface BoardInfo {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  elementCount: number;
+  isDefault: boolean;
 }
 
 // API Response types
@@ -126,6 +197,23 @@ export interface ElementResponse extends ApiResponse {
   element: ServerElement;
 }
 
+export interface DeleteResponse extends ApiResponse {
+  deletedIds: string[];
+  detachedIds: string[];
+}
+
+// A write based on an older version of an element than the stored one
+export interface ElementConflict {
+  id: string;
+  expectedVersion: number;
+  // The element as it is stored now
+  element: ServerElement;
+}
+
+export interface ConflictResponse extends ApiResponse {
+  conflicts: ElementConflict[];
+}
+
 export interface SyncResponse extends ApiResponse {
   count: number;
   syncedAt: string;
@@ -142,12 +230,28 @@ export interface WebSocketMessage {
 export type WebSocketMessageType =
   | "initial_elements"
   | "element_created"
+  | "element_updated"
+  | "element_deleted"
+  | "elements_batch_created"
+  | "board_deleted"
+  | "board_reloaded"
+  | "join_board"
+  | "element_operations"
+  | "operations_applied"
+  | "presence_update"
+  | "presence_state"
+  | "presence"
+  | "presence_left"
+  | "error"
   | "elements_synced"
   | "sync_status";
 
 export interface InitialElementsMessage extends WebSocketMessage {
   type: "initial_elements";
+  boardId: string;
   elements: ServerElement[];
+  // What the client's token allows, viewers can not edit
+  role: "viewer" | "editor" | "admin";
 }
 
 export interface ElementCreatedMessage extends WebSocketMessage {
@@ -155,35 +259,127 @@ export interface ElementCreatedMessage extends WebSocketMessage {
   element: ServerElement;
 }
 
-export interface SyncStatusMessage extends WebSocketMessage {
-  type: "sync_status";
-  elementCount: number;
-  timestamp: string;
+export interface ElementUpdatedMessage extends WebSocketMessage {
+  type: "element_updated";
+  element: ServerElement;
+}
+
+export interface ElementsBatchCreatedMessage extends WebSocketMessage {
+  type: "elements_batch_created";
+  elements: ServerElement[];
+}
+
+export interface ElementDeletedMessage extends WebSocketMessage {
+  type: "element_deleted";
+  elementIds: string[];
 }
 
-// In-memory storage for Plait elements
-export const elements = new Map<string, ServerElement>();
+export interface BoardDeletedMessage extends WebSocketMessage {
+  type: "board_deleted";
+  boardId: string;
+}
 
-// Validation function for Plait elements
-export function validateElement(
-  element: Partial<ServerElement>
-): element is ServerElement {
-  const requiredFields: (keyof ServerElement)[] = ["type", "shape"];
-  const hasRequiredFields = requiredFields.every((field) => field in element);
+// The whole board changed, e.g. a snapshot was restored; clients replace
+// everything they show with these elements
+export interface BoardReloadedMessage extends WebSocketMessage {
+  type: "board_reloaded";
+  boardId: string;
+  elements: ServerElement[];
+}
 
-  if (!hasRequiredFields) {
-    throw new Error(`Missing required fields: ${requiredFields.join(", ")}`);
-  }
+// Sent by a client to switch the board it is subscribed to
+export interface JoinBoardMessage extends WebSocketMessage {
+  type: "join_board";
+  boardId: string;
+}
 
-  if (
-    !Object.values(PLAIT_ELEMENT_TYPES).includes(
-      element.type as PlaitElementType
-    )
-  ) {
-    throw new Error(`Invalid element type: ${element.type}`);
-  }
+// One browser edit: an element that was added, changed or removed
+// `baseVersion` is the version the edit was made on, when the element changed
+// since the operation is rejected
+export type ElementOperation =
+  | { op: "create"; element: ServerElement }
+  | { op: "update"; element: ServerElement; baseVersion?: number }
+  | { op: "delete"; id: string; baseVersion?: number };
+
+// Sent by a client with the edits made on its board since the last message
+export interface ElementOperationsMessage extends WebSocketMessage {
+  type: "element_operations";
+  operations: ElementOperation[];
+}
+
+export interface RejectedOperation {
+  id: string;
+  error: string;
+  // The element as stored now, none when the server does not have it
+  element?: ServerElement;
+}
+
+// Sent back to the client that sent element_operations
+export interface OperationsAppliedMessage extends WebSocketMessage {
+  type: "operations_applied";
+  applied: number;
+  rejected: RejectedOperation[];
+  // The new version of every element created or updated
+  versions: Record<string, number>;
+}
+
+// A connected client, named with ?name=<name>&color=<colour> when it
+// connects, or the agent writing through the MCP server
+export interface ClientIdentity {
+  clientId: string;
+  name: string;
+  color: string;
+  kind: "user" | "agent";
+}
 
-  return true;
+export interface Viewport {
+  zoom: number;
+  // The board point at the top left corner of the screen
+  origination: Point;
+}
+
+export interface ClientPresence extends ClientIdentity {
+  // In board coordinates, null when the pointer is off the board
+  cursor: Point | null;
+  selection: string[];
+  viewport: Viewport | null;
+}
+
+// Sent by a client when its cursor, selection or viewport changes, with only
+// the fields that changed
+export interface PresenceUpdateMessage extends WebSocketMessage {
+  type: "presence_update";
+  cursor?: Point | null;
+  selection?: string[];
+  viewport?: Viewport | null;
+}
+
+// Sent to a client when it joins a board: its own identity and everyone else
+export interface PresenceStateMessage extends WebSocketMessage {
+  type: "presence_state";
+  self: ClientIdentity;
+  clients: ClientPresence[];
+}
+
+export interface PresenceMessage extends WebSocketMessage {
+  type: "presence";
+  presence: ClientPresence;
+}
+
+export interface PresenceLeftMessage extends WebSocketMessage {
+  type: "presence_left";
+  clientId: string;
+}
+
+export interface ErrorMessage extends WebSocketMessage {
+  type: "error";
+  error: string;
+}
+
+export interface SyncStatusMessage extends WebSocketMessage {
+  type: "sync_status";
+  elementCount: number;
+  timestamp: string;
 }
 
 // Helper function to generate unique IDs
@@ -0,0 +1,170 @@
+import {
+  ClientIdentity,
+  ClientPresence,
+  generateId,
+  Point,
+  PresenceLeftMessage,
+  PresenceMessage,
+  Viewport,
+  WebSocketMessage,
+} from "./plait-types.js";
+
+// Presence changes are sent at most this often per client, a moving cursor
+// reports far more often than other clients need to redraw it
+const PRESENCE_INTERVAL = 100;
+
+// The agent presence goes away when the agent has not written for this long
+const AGENT_PRESENCE_TIMEOUT = 30_000;
+
+const AGENT_ID = "agent";
+const AGENT_COLOR = "#7c3aed";
+
+// Colours of clients that do not choose one, in the order they connect
+const PALETTE = [
+  "#e03131",
+  "#1971c2",
+  "#2f9e44",
+  "#f08c00",
+  "#c2255c",
+  "#0c8599",
+  "#6741d9",
+  "#5c940d",
+];
+
+export interface PresenceChange {
+  cursor?: Point | null;
+  selection?: string[];
+  viewport?: Viewport | null;
+}
+
+// Sends a message to the clients of a board, except the one with clientId
+export type PresenceSender = (
+  boardId: string,
+  message: WebSocketMessage,
+  exceptClientId?: string
+) => void;
+
+/**
+ * Who is on each board, where their cursor is and what they have selected.
+ * Changes are collected and sent every PRESENCE_INTERVAL, joins and leaves
+ * right away. Agent writes show up as an "agent" presence that selects the
+ * elements it touched.
+ */
+export class PresenceTracker {
+  private readonly boards = new Map<string, Map<string, ClientPresence>>();
+  // Clients with changes that were not sent yet, by board
+  private readonly pending = new Map<string, Set<string>>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private readonly agentTimers = new Map<string, NodeJS.Timeout>();
+  private guestCount = 0;
+
+  constructor(private readonly send: PresenceSender) {}
+
+  createIdentity(name?: string, color?: string): ClientIdentity {
+    const index = this.guestCount++;
+    return {
+      clientId: generateId(),
+      name: name || `Guest ${index + 1}`,
+      color: color || PALETTE[index % PALETTE.length]!,
+      kind: "user",
+    };
+  }
+
+  // Everyone on the board, including the agent when it is active
+  list(boardId: string): ClientPresence[] {
+    return Array.from(this.boards.get(boardId)?.values() ?? []);
+  }
+
+  join(boardId: string, identity: ClientIdentity): void {
+    const presence: ClientPresence = {
+      ...identity,
+      cursor: null,
+      selection: [],
+      viewport: null,
+    };
+    this.presences(boardId).set(identity.clientId, presence);
+    this.sendPresence(boardId, presence);
+  }
+
+  update(boardId: string, clientId: string, change: PresenceChange): void {
+    const presence = this.boards.get(boardId)?.get(clientId);
+    if (!presence) return;
+    if (change.cursor !== undefined) presence.cursor = change.cursor;
+    if (change.selection !== undefined) presence.selection = change.selection;
+    if (change.viewport !== undefined) presence.viewport = change.viewport;
+
+    if (!this.pending.has(boardId)) this.pending.set(boardId, new Set());
+    this.pending.get(boardId)!.add(clientId);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), PRESENCE_INTERVAL);
+    }
+  }
+
+  leave(boardId: string, clientId: string): void {
+    const presences = this.boards.get(boardId);
+    if (!presences?.delete(clientId)) return;
+    if (presences.size === 0) this.boards.delete(boardId);
+    this.pending.get(boardId)?.delete(clientId);
+
+    const message: PresenceLeftMessage = { type: "presence_left", clientId };
+    this.send(boardId, message);
+  }
+
+  // Show the agent on the board, selecting the elements it just wrote with
+  // its cursor at `cursor`, usually their centre
+  touchByAgent(
+    boardId: string,
+    elementIds: string[],
+    cursor: Point | null
+  ): void {
+    const presence: ClientPresence = {
+      clientId: AGENT_ID,
+      name: "Agent",
+      color: AGENT_COLOR,
+      kind: "agent",
+      cursor,
+      selection: elementIds,
+      viewport: null,
+    };
+    this.presences(boardId).set(AGENT_ID, presence);
+    this.sendPresence(boardId, presence);
+
+    clearTimeout(this.agentTimers.get(boardId));
+    this.agentTimers.set(
+      boardId,
+      setTimeout(() => {
+        this.agentTimers.delete(boardId);
+        this.leave(boardId, AGENT_ID);
+      }, AGENT_PRESENCE_TIMEOUT).unref()
+    );
+  }
+
+  // Drop everything of a deleted board without telling anyone
+  clearBoard(boardId: string): void {
+    this.boards.delete(boardId);
+    this.pending.delete(boardId);
+    clearTimeout(this.agentTimers.get(boardId));
+    this.agentTimers.delete(boardId);
+  }
+
+  private presences(boardId: string): Map<string, ClientPresence> {
+    if (!this.boards.has(boardId)) this.boards.set(boardId, new Map());
+    return this.boards.get(boardId)!;
+  }
+
+  private sendPresence(boardId: string, presence: ClientPresence): void {
+    const message: PresenceMessage = { type: "presence", presence };
+    this.send(boardId, message, presence.clientId);
+  }
+
+  private flush(): void {
+    this.flushTimer = null;
+    this.pending.forEach((clientIds, boardId) => {
+      clientIds.forEach((clientId) => {
+        const presence = this.boards.get(boardId)?.get(clientId);
+        if (presence) this.sendPresence(boardId, presence);
+      });
+    });
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,229 @@
+import { MindNodeElement, Point, ServerElement } from "./plait-types.js";
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ElementQuery {
+  type?: string;
+  shape?: string;
+  // Case-insensitive substring of the element's text
+  text?: string;
+  // Elements whose bounds intersect this rectangle
+  within?: [Point, Point];
+  // Arrow lines bound to this element at either end
+  boundTo?: string;
+  // Elements joined to this element by an arrow line
+  connectedTo?: string;
+}
+
+// Plain text of a string or of Plait rich text ({ children: [{ text }] })
+export function plainText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (!value || typeof value !== "object") return "";
+  const node = value as { text?: unknown; children?: unknown[] };
+  if (typeof node.text === "string") return node.text;
+  return (node.children || []).map(plainText).join("");
+}
+
+function mindTopics(node: MindNodeElement): string[] {
+  return [
+    plainText(node.data.topic),
+    ...(node.children || []).flatMap(mindTopics),
+  ];
+}
+
+// All text shown by an element, arrow labels and mind topics included
+export function elementText(element: ServerElement): string {
+  const candidate = element as ServerElement & {
+    text?: unknown;
+    texts?: { text: unknown }[];
+  };
+  if (element.type === "mind") {
+    return mindTopics(element as unknown as MindNodeElement).join("\n");
+  }
+  if (Array.isArray(candidate.texts)) {
+    return candidate.texts.map((text) => plainText(text.text)).join("\n");
+  }
+  return plainText(candidate.text);
+}
+
+// Bounding box of the element's points; mind maps only store the position
+// of their central topic, so their bounds are that single point
+export function getElementBounds(element: ServerElement): Bounds | null {
+  const points = (element as ServerElement & { points?: Point[] }).points;
+  if (!Array.isArray(points) || points.length === 0) return null;
+  const xs = points.map((point) => point[0]);
+  const ys = points.map((point) => point[1]);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return {
+    x,
+    y,
+    width: Math.max(...xs) - x,
+    height: Math.max(...ys) - y,
+  };
+}
+
+export function unionBounds(bounds: Bounds[]): Bounds | null {
+  if (bounds.length === 0) return null;
+  const x = Math.min(...bounds.map((rect) => rect.x));
+  const y = Math.min(...bounds.map((rect) => rect.y));
+  return {
+    x,
+    y,
+    width: Math.max(...bounds.map((rect) => rect.x + rect.width)) - x,
+    height: Math.max(...bounds.map((rect) => rect.y + rect.height)) - y,
+  };
+}
+
+function intersects(bounds: Bounds, area: [Point, Point]): boolean {
+  const [[x1, y1], [x2, y2]] = area;
+  return (
+    bounds.x <= Math.max(x1, x2) &&
+    bounds.x + bounds.width >= Math.min(x1, x2) &&
+    bounds.y <= Math.max(y1, y2) &&
+    bounds.y + bounds.height >= Math.min(y1, y2)
+  );
+}
+
+function boundIds(element: ServerElement): string[] {
+  if (element.type !== "arrow-line") return [];
+  return [element.source?.boundId, element.target?.boundId].filter(
+    (id): id is string => !!id
+  );
+}
+
+export function queryElements(
+  elements: ServerElement[],
+  query: ElementQuery
+): ServerElement[] {
+  let results = elements;
+
+  if (query.type) {
+    results = results.filter((element) => element.type === query.type);
+  }
+  if (query.shape) {
+    results = results.filter((element) => element.shape === query.shape);
+  }
+  if (query.text) {
+    const needle = query.text.toLowerCase();
+    results = results.filter((element) =>
+      elementText(element).toLowerCase().includes(needle)
+    );
+  }
+  if (query.within) {
+    const area = query.within;
+    results = results.filter((element) => {
+      const bounds = getElementBounds(element);
+      return !!bounds && intersects(bounds, area);
+    });
+  }
+  if (query.boundTo) {
+    const id = query.boundTo;
+    results = results.filter((element) => boundIds(element).includes(id));
+  }
+  if (query.connectedTo) {
+    const id = query.connectedTo;
+    const neighbours = new Set<string>();
+    elements.forEach((element) => {
+      const ids = boundIds(element);
+      if (ids.includes(id)) {
+        ids.forEach((other) => other !== id && neighbours.add(other));
+      }
+    });
+    results = results.filter((element) => neighbours.has(element.id));
+  }
+
+  return results;
+}
+
+const MAX_SUMMARY_TEXT = 40;
+
+function quote(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return JSON.stringify(
+    line.length > MAX_SUMMARY_TEXT
+      ? `${line.slice(0, MAX_SUMMARY_TEXT - 1)}…`
+      : line
+  );
+}
+
+function formatBounds(bounds: Bounds): string {
+  return `[${Math.round(bounds.x)}, ${Math.round(bounds.y)}] ${Math.round(
+    bounds.width
+  )}x${Math.round(bounds.height)}`;
+}
+
+/**
+ * One line per element, short enough to list large boards, e.g.
+ * `aB3dE geometry/rectangle "Start" at [100, 100] 120x60`
+ * `xY7kM arrow-line/elbow aB3dE -> fG8hJ "yes"`
+ */
+export function summarizeElement(element: ServerElement): string {
+  const parts = [element.id, `${element.type}/${element.shape}`];
+  const text = elementText(element);
+
+  if (element.type === "arrow-line") {
+    parts.push(
+      `${element.source?.boundId || "(free)"} -> ${
+        element.target?.boundId || "(free)"
+      }`
+    );
+  }
+  if (element.type === "mind") {
+    const topics = text.split("\n");
+    parts.push(`${quote(topics[0] || "")} (${topics.length} topics)`);
+  } else if (text) {
+    parts.push(quote(text));
+  }
+
+  const bounds = getElementBounds(element);
+  if (bounds && element.type !== "arrow-line") {
+    parts.push(`at ${formatBounds(bounds)}`);
+  }
+  return parts.join(" ");
+}
+
+// Counts per type, the occupied area and a summary line per element
+export function summarizeCanvas(
+  elements: ServerElement[],
+  limit: number
+): string {
+  if (elements.length === 0) {
+    return "The canvas is empty.";
+  }
+
+  const counts = new Map<string, number>();
+  elements.forEach((element) =>
+    counts.set(element.type, (counts.get(element.type) || 0) + 1)
+  );
+  const bounds = unionBounds(
+    elements
+      .map(getElementBounds)
+      .filter((rect): rect is Bounds => rect !== null)
+  );
+
+  const lines = [
+    `${elements.length} elements: ${Array.from(counts.entries())
+      .map(([type, count]) => `${count} ${type}`)
+      .join(", ")}`,
+  ];
+  if (bounds) {
+    lines.push(
+      `Occupied area: ${formatBounds(bounds)}, free space starts at x = ${Math.round(
+        bounds.x + bounds.width + 160
+      )} or y = ${Math.round(bounds.y + bounds.height + 160)}`
+    );
+  }
+  lines.push("", ...elements.slice(0, limit).map(summarizeElement));
+  if (elements.length > limit) {
+    lines.push(
+      `… ${elements.length - limit} more, use query_elements to narrow down`
+    );
+  }
+  return lines.join("\n");
+}
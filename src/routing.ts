@@ -0,0 +1,512 @@
+import {
+  ArrowLineHandle,
+  ArrowLineMarkerType,
+  ArrowLineShapes,
+  generateId,
+  Point,
+  PointOfRectangle,
+  ServerArrowLineElement,
+  ServerElement,
+} from "./plait-types.js";
+import { Bounds, getElementBounds } from "./query.js";
+import { layoutText } from "./text-metrics.js";
+
+// Elbow lines leave and enter a shape straight for this long before turning
+export const STUB_LENGTH = 20;
+// Room kept between an elbow line and the shapes it goes around
+const CLEARANCE = 10;
+// A bend costs as much as this much more line, so routes prefer few bends
+const BEND_PENALTY = 40;
+// Shapes further than this outside the box spanned by both ends are ignored
+const SEARCH_MARGIN = 200;
+// Above this many grid points the route falls back to a plain elbow
+const MAX_GRID_POINTS = 40_000;
+// Room for the markers and some line on both sides of a label
+const LABEL_MARGIN = 24;
+
+type Axis = "horizontal" | "vertical";
+
+interface ResolvedEnd {
+  point: Point;
+  // Where the line leaves the shape, none for free ends and centre points
+  direction: Point | null;
+}
+
+function axisOf(direction: Point): Axis {
+  return direction[0] !== 0 ? "horizontal" : "vertical";
+}
+
+export function connectionPoint(
+  bounds: Bounds,
+  connection: PointOfRectangle
+): Point {
+  return [
+    bounds.x + bounds.width * connection[0],
+    bounds.y + bounds.height * connection[1],
+  ];
+}
+
+// The side a connection point is on, as the outward direction; corners
+// count as on the left or right side
+function connectionDirection(connection: PointOfRectangle): Point | null {
+  if (connection[0] === 0) return [-1, 0];
+  if (connection[0] === 1) return [1, 0];
+  if (connection[1] === 0) return [0, -1];
+  if (connection[1] === 1) return [0, 1];
+  return null;
+}
+
+function resolveEnd(
+  handle: ArrowLineHandle | undefined,
+  find: (id: string) => ServerElement | undefined
+): ResolvedEnd | null {
+  const bound = handle?.boundId ? find(handle.boundId) : undefined;
+  const bounds = bound?.type === "geometry" ? getElementBounds(bound) : null;
+  if (!bounds || !handle?.connection) return null;
+  return {
+    point: connectionPoint(bounds, handle.connection),
+    direction: connectionDirection(handle.connection),
+  };
+}
+
+// Whether `point` lies on the horizontal or vertical segment between
+// `previous` and `next`, so that it can be left out; a turn back is not
+function onSegment(previous: Point, point: Point, next: Point): boolean {
+  return (
+    (previous[0] === point[0] &&
+      point[0] === next[0] &&
+      (point[1] - previous[1]) * (next[1] - point[1]) >= 0) ||
+    (previous[1] === point[1] &&
+      point[1] === next[1] &&
+      (point[0] - previous[0]) * (next[0] - point[0]) >= 0)
+  );
+}
+
+/**
+ * Drop repeated points and the middle of three points on one straight
+ * horizontal or vertical segment. The route keeps at least two points, both
+ * ends even when they meet.
+ */
+export function removeRedundantPoints(points: Point[]): Point[] {
+  const kept: Point[] = [];
+  points.forEach((point) => {
+    const last = kept[kept.length - 1];
+    if (last && last[0] === point[0] && last[1] === point[1]) return;
+    const beforeLast = kept[kept.length - 2];
+    if (beforeLast && last && onSegment(beforeLast, last, point)) kept.pop();
+    kept.push(point);
+  });
+  if (kept.length === 1 && points.length > 1) {
+    kept.push(points[points.length - 1]!);
+  }
+  return kept;
+}
+
+function strictlyInside([x, y]: Point, bounds: Bounds): boolean {
+  return (
+    x > bounds.x &&
+    x < bounds.x + bounds.width &&
+    y > bounds.y &&
+    y < bounds.y + bounds.height
+  );
+}
+
+function intersects(a: Bounds, b: Bounds): boolean {
+  return (
+    a.x <= b.x + b.width &&
+    a.x + a.width >= b.x &&
+    a.y <= b.y + b.height &&
+    a.y + a.height >= b.y
+  );
+}
+
+function sortedUnique(values: number[]): number[] {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+// Binary min-heap of [cost, state] pairs for the route search
+class RouteQueue {
+  private readonly items: [number, number][] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: [number, number]): void {
+    const items = this.items;
+    items.push(item);
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent]![0] <= items[index]![0]) break;
+      [items[parent], items[index]] = [items[index]!, items[parent]!];
+      index = parent;
+    }
+  }
+
+  pop(): [number, number] {
+    const items = this.items;
+    const top = items[0]!;
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left]![0] < items[smallest]![0]) {
+          smallest = left;
+        }
+        if (right < items.length && items[right]![0] < items[smallest]![0]) {
+          smallest = right;
+        }
+        if (smallest === index) break;
+        [items[smallest], items[index]] = [items[index]!, items[smallest]!];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+// Two bends halfway between the points, for when no route around the
+// shapes is found
+function directElbow(from: Point, to: Point, axis: Axis): Point[] {
+  if (axis === "horizontal") {
+    const middle = (from[0] + to[0]) / 2;
+    return [from, [middle, from[1]], [middle, to[1]], to];
+  }
+  const middle = (from[1] + to[1]) / 2;
+  return [from, [from[0], middle], [to[0], middle], to];
+}
+
+/**
+ * The shortest path of horizontal and vertical segments from one point to
+ * another that does not cross any obstacle, bends counting extra. It runs
+ * on the grid of lines through both points and along the obstacle edges;
+ * `startAxis` and `endAxis` are how the path should leave and arrive.
+ */
+function orthogonalPath(
+  from: Point,
+  to: Point,
+  startAxis: Axis | null,
+  endAxis: Axis | null,
+  obstacles: Bounds[]
+): Point[] | null {
+  const area: Bounds = {
+    x: Math.min(from[0], to[0]) - SEARCH_MARGIN,
+    y: Math.min(from[1], to[1]) - SEARCH_MARGIN,
+    width: Math.abs(from[0] - to[0]) + SEARCH_MARGIN * 2,
+    height: Math.abs(from[1] - to[1]) + SEARCH_MARGIN * 2,
+  };
+  const blocking = obstacles.filter(
+    (obstacle) =>
+      intersects(obstacle, area) &&
+      !strictlyInside(from, obstacle) &&
+      !strictlyInside(to, obstacle)
+  );
+
+  const xs = sortedUnique([
+    from[0],
+    to[0],
+    (from[0] + to[0]) / 2,
+    area.x,
+    area.x + area.width,
+    ...blocking.flatMap((obstacle) => [
+      obstacle.x,
+      obstacle.x + obstacle.width,
+    ]),
+  ]);
+  const ys = sortedUnique([
+    from[1],
+    to[1],
+    (from[1] + to[1]) / 2,
+    area.y,
+    area.y + area.height,
+    ...blocking.flatMap((obstacle) => [
+      obstacle.y,
+      obstacle.y + obstacle.height,
+    ]),
+  ]);
+  if (xs.length * ys.length > MAX_GRID_POINTS) return null;
+
+  const pointOf = (node: number): Point => [
+    xs[Math.floor(node / ys.length)]!,
+    ys[node % ys.length]!,
+  ];
+  const free = (point: Point) =>
+    !blocking.some((obstacle) => strictlyInside(point, obstacle));
+
+  // A state is a grid point and the axis the path reached it along
+  const AXES: Axis[] = ["horizontal", "vertical"];
+  const startNode = xs.indexOf(from[0]) * ys.length + ys.indexOf(from[1]);
+  const endNode = xs.indexOf(to[0]) * ys.length + ys.indexOf(to[1]);
+  const costs = new Map<number, number>();
+  const previous = new Map<number, number>();
+  const queue = new RouteQueue();
+  AXES.forEach((axis, index) => {
+    if (startAxis && axis !== startAxis) return;
+    costs.set(startNode * 2 + index, 0);
+    queue.push([0, startNode * 2 + index]);
+  });
+
+  let best: number | null = null;
+  let bestCost = Infinity;
+  while (queue.size > 0) {
+    const [cost, state] = queue.pop();
+    if (cost > (costs.get(state) ?? Infinity) || cost >= bestCost) continue;
+    const node = Math.floor(state / 2);
+    const axis = AXES[state % 2]!;
+    if (node === endNode) {
+      const total = cost + (endAxis && axis !== endAxis ? BEND_PENALTY : 0);
+      if (total < bestCost) {
+        best = state;
+        bestCost = total;
+      }
+      continue;
+    }
+
+    const column = Math.floor(node / ys.length);
+    const row = node % ys.length;
+    const neighbours: [number, number, Axis][] = [
+      [column - 1, row, "horizontal"],
+      [column + 1, row, "horizontal"],
+      [column, row - 1, "vertical"],
+      [column, row + 1, "vertical"],
+    ];
+    const point = pointOf(node);
+    neighbours.forEach(([nextColumn, nextRow, nextAxis]) => {
+      if (
+        nextColumn < 0 ||
+        nextColumn >= xs.length ||
+        nextRow < 0 ||
+        nextRow >= ys.length
+      ) {
+        return;
+      }
+      const next = nextColumn * ys.length + nextRow;
+      const nextPoint = pointOf(next);
+      const middle: Point = [
+        (point[0] + nextPoint[0]) / 2,
+        (point[1] + nextPoint[1]) / 2,
+      ];
+      if (!free(nextPoint) || !free(middle)) return;
+
+      const nextState = next * 2 + AXES.indexOf(nextAxis);
+      const nextCost =
+        cost +
+        Math.abs(nextPoint[0] - point[0]) +
+        Math.abs(nextPoint[1] - point[1]) +
+        (nextAxis !== axis ? BEND_PENALTY : 0);
+      if (nextCost < (costs.get(nextState) ?? Infinity)) {
+        costs.set(nextState, nextCost);
+        previous.set(nextState, state);
+        queue.push([nextCost, nextState]);
+      }
+    });
+  }
+
+  if (best === null) return null;
+  const path: Point[] = [];
+  for (
+    let state: number | undefined = best;
+    state !== undefined;
+    state = previous.get(state)
+  ) {
+    path.unshift(pointOf(Math.floor(state / 2)));
+  }
+  return path;
+}
+
+function elbowRoute(
+  start: ResolvedEnd,
+  end: ResolvedEnd,
+  shapes: Bounds[]
+): Point[] {
+  const leave = ({ point, direction }: ResolvedEnd): Point =>
+    direction
+      ? [
+          point[0] + direction[0] * STUB_LENGTH,
+          point[1] + direction[1] * STUB_LENGTH,
+        ]
+      : point;
+  const from = leave(start);
+  const to = leave(end);
+  const startAxis = start.direction ? axisOf(start.direction) : null;
+  const endAxis = end.direction ? axisOf(end.direction) : null;
+
+  const obstacles = shapes.map((bounds) => ({
+    x: bounds.x - CLEARANCE,
+    y: bounds.y - CLEARANCE,
+    width: bounds.width + CLEARANCE * 2,
+    height: bounds.height + CLEARANCE * 2,
+  }));
+  const path =
+    orthogonalPath(from, to, startAxis, endAxis, obstacles) ??
+    directElbow(
+      from,
+      to,
+      startAxis ??
+        endAxis ??
+        (Math.abs(to[0] - from[0]) >= Math.abs(to[1] - from[1])
+          ? "horizontal"
+          : "vertical")
+    );
+  return removeRedundantPoints([start.point, ...path, end.point]);
+}
+
+/**
+ * The points of an arrow-line with its bound ends moved onto their
+ * connection points, or null when neither end is bound. Elbow lines get a
+ * new path of horizontal and vertical segments around `shapes`, other lines
+ * keep their middle points.
+ */
+export function routeArrowLine(
+  arrowLine: ServerArrowLineElement,
+  find: (id: string) => ServerElement | undefined,
+  shapes: ServerElement[]
+): Point[] | null {
+  const stored = arrowLine.points;
+  if (!Array.isArray(stored) || stored.length < 2) return null;
+  const source = resolveEnd(arrowLine.source, find);
+  const target = resolveEnd(arrowLine.target, find);
+  if (!source && !target) return null;
+
+  const start = source ?? { point: stored[0]!, direction: null };
+  const end = target ?? {
+    point: stored[stored.length - 1]!,
+    direction: null,
+  };
+  if (arrowLine.shape !== ArrowLineShapes.elbow) {
+    return [start.point, ...stored.slice(1, -1), end.point];
+  }
+  return elbowRoute(
+    start,
+    end,
+    shapes.flatMap((shape) => {
+      const bounds = shape.type === "geometry" ? getElementBounds(shape) : null;
+      return bounds ? [bounds] : [];
+    })
+  );
+}
+
+// Arrow-lines whose route depends on the changed elements: the changed
+// arrow-lines themselves and those bound to a changed element
+export function dependentArrowLines(
+  elements: Iterable<ServerElement>,
+  changedIds: Set<string>
+): ServerArrowLineElement[] {
+  return Array.from(elements).filter(
+    (element): element is ServerArrowLineElement =>
+      element.type === "arrow-line" &&
+      (changedIds.has(element.id) ||
+        (!!element.source?.boundId && changedIds.has(element.source.boundId)) ||
+        (!!element.target?.boundId && changedIds.has(element.target.boundId)))
+  );
+}
+
+export interface ConnectOptions {
+  id?: string;
+  label?: string;
+  shape?: ArrowLineShapes;
+  // Marker at the target end, the source end has none
+  marker?: ArrowLineMarkerType;
+}
+
+export interface Connection {
+  arrowLine: ServerArrowLineElement;
+  // Why the arrow-line may not show well, for the agent to fix
+  warning?: string;
+}
+
+/**
+ * An arrow-line bound to two geometries on the sides that face each other.
+ * Labels are drawn level, so a label needs the free space between the
+ * shapes to be as wide as it is along a horizontal line, and as tall along
+ * a vertical one. Of the two, the axis with more free space is used unless
+ * only the other one fits the label.
+ */
+export function connectArrowLine(
+  from: ServerElement,
+  to: ServerElement,
+  options: ConnectOptions = {}
+): Connection {
+  [from, to].forEach((element) => {
+    if (element.type !== "geometry") {
+      throw new Error(
+        `Element ${element.id} is ${element.type}, arrow lines can only connect geometry elements`
+      );
+    }
+  });
+  const source = getElementBounds(from)!;
+  const target = getElementBounds(to)!;
+
+  const gaps: Record<Axis, number> = {
+    horizontal: Math.max(
+      target.x - (source.x + source.width),
+      source.x - (target.x + target.width)
+    ),
+    vertical: Math.max(
+      target.y - (source.y + source.height),
+      source.y - (target.y + target.height)
+    ),
+  };
+  const label = options.label ? layoutText(options.label) : null;
+  const needed: Record<Axis, number> = {
+    horizontal: (label?.width ?? 0) + LABEL_MARGIN * 2,
+    vertical: (label?.height ?? 0) + LABEL_MARGIN * 2,
+  };
+  const axes: Axis[] =
+    gaps.horizontal >= gaps.vertical
+      ? ["horizontal", "vertical"]
+      : ["vertical", "horizontal"];
+  const axis = axes.find((axis) => gaps[axis] >= needed[axis]) ?? axes[0]!;
+
+  const forward =
+    axis === "horizontal"
+      ? target.x + target.width / 2 >= source.x + source.width / 2
+      : target.y + target.height / 2 >= source.y + source.height / 2;
+  const connections: [PointOfRectangle, PointOfRectangle] =
+    axis === "horizontal"
+      ? [
+          [forward ? 1 : 0, 0.5],
+          [forward ? 0 : 1, 0.5],
+        ]
+      : [
+          [0.5, forward ? 1 : 0],
+          [0.5, forward ? 0 : 1],
+        ];
+
+  const arrowLine: ServerArrowLineElement = {
+    id: options.id || generateId(),
+    type: "arrow-line",
+    shape: options.shape || ArrowLineShapes.elbow,
+    points: [
+      connectionPoint(source, connections[0]),
+      connectionPoint(target, connections[1]),
+    ],
+    texts: options.label ? [{ text: options.label, position: 0.5 }] : [],
+    source: {
+      boundId: from.id,
+      connection: connections[0],
+      marker: ArrowLineMarkerType.none,
+    },
+    target: {
+      boundId: to.id,
+      connection: connections[1],
+      marker: options.marker || ArrowLineMarkerType.arrow,
+    },
+  };
+
+  const gap = Math.round(gaps[axis]);
+  let warning: string | undefined;
+  if (gap <= 0) {
+    warning = `${from.id} and ${to.id} overlap, move them apart so the arrow line shows`;
+  } else if (gap < needed[axis]) {
+    warning = `${options.label ? "The label" : "The arrow line"} needs ${Math.ceil(
+      needed[axis]
+    )}px between ${from.id} and ${to.id} but only ${gap}px are free, move them further apart`;
+  }
+  return { arrowLine, ...(warning && { warning }) };
+}
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  ArrowLineMarkerType,
+  ArrowLineShapes,
+  GeometryShapes,
+  ServerElement,
+} from "./plait-types.js";
+import {
+  ElementValidationError,
+  validateBrowserElement,
+  validateElement,
+} from "./schemas.js";
+
+const shape = {
+  id: "shape",
+  type: "geometry",
+  shape: GeometryShapes.rectangle,
+  points: [
+    [0, 0],
+    [100, 60],
+  ],
+} as ServerElement;
+
+// A line the user drew to a point along the right edge of the shape
+const drawnLine = {
+  id: "line",
+  type: "arrow-line",
+  shape: ArrowLineShapes.straight,
+  points: [
+    [100, 24],
+    [200, 24],
+  ],
+  texts: [],
+  source: {
+    boundId: "shape",
+    connection: [1, 0.4],
+    marker: ArrowLineMarkerType.none,
+  },
+  target: { marker: ArrowLineMarkerType.arrow },
+};
+
+const find = (id: string) => (id === shape.id ? shape : undefined);
+
+test("tool input may only connect to corners and edge middles", () => {
+  assert.throws(
+    () => validateElement(drawnLine, find),
+    (error: ElementValidationError) =>
+      error.errors.some(
+        ({ path, message }) =>
+          path === "source.connection[1]" && message === "must be 0, 0.5 or 1"
+      )
+  );
+});
+
+test("browser elements may connect anywhere and have other shapes", () => {
+  assert.equal(validateBrowserElement(drawnLine, find).id, "line");
+  assert.equal(
+    validateBrowserElement({ ...shape, shape: "roundRectangle" }, find).id,
+    "shape"
+  );
+});
+
+test("browser elements are still checked for their structure", () => {
+  assert.throws(
+    () => validateBrowserElement({ ...shape, points: [[0, 0]] }, find),
+    ElementValidationError
+  );
+  assert.throws(
+    () =>
+      validateBrowserElement(
+        { ...drawnLine, source: { ...drawnLine.source, boundId: "gone" } },
+        find
+      ),
+    /element gone not found/
+  );
+});
@@ -0,0 +1,506 @@
+import { z } from "zod";
+import {
+  ArrowLineMarkerType,
+  ArrowLineShapes,
+  FreehandShapes,
+  GeometryShapes,
+  MindElementShape,
+  MindLayoutType,
+  ServerElement,
+  StrokeStyle,
+  TextAlign,
+} from "./plait-types.js";
+import { OPERATION_ORIGINS } from "./history.js";
+
+/**
+ * Zod schemas of the elements accepted by the canvas server, one per element
+ * type. Unknown properties are kept so elements can carry extra Plait data.
+ */
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export class ElementValidationError extends Error {
+  constructor(
+    summary: string,
+    readonly errors: FieldError[]
+  ) {
+    super(
+      `${summary}:\n${errors
+        .map((error) => `${error.path || "(root)"}: ${error.message}`)
+        .join("\n")}`
+    );
+    this.name = "ElementValidationError";
+  }
+}
+
+export const pointSchema = z.tuple([z.number().finite(), z.number().finite()], {
+  errorMap: () => ({ message: "a point must be [x, y] with two numbers" }),
+});
+
+// Hex (#rgb, #rgba, #rrggbb, #rrggbbaa), rgb()/rgba()/hsl()/hsla() or a
+// CSS colour keyword such as "red" or "transparent"
+const COLOR_PATTERN =
+  /^(#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|(rgb|hsl)a?\([^()]*\)|[a-z]+)$/i;
+
+export const colorSchema = z
+  .string()
+  .regex(
+    COLOR_PATTERN,
+    'must be a colour such as "#1e90ff", "rgba(0, 0, 0, 0.5)" or "red"'
+  );
+
+export const strokeWidthSchema = z
+  .number()
+  .positive("must be greater than 0")
+  .max(32, "must be at most 32");
+
+// Plait rich text, as stored by the canvas after a browser sync
+const richTextSchema = z
+  .object({ children: z.array(z.unknown()) })
+  .passthrough();
+
+export const textSchema = z.union([z.string(), richTextSchema], {
+  errorMap: () => ({ message: "must be a string" }),
+});
+
+// Only the corners and the middle of the edges can be connected to
+const connectionValueSchema = z.union(
+  [z.literal(0), z.literal(0.5), z.literal(1)],
+  { errorMap: () => ({ message: "must be 0, 0.5 or 1" }) }
+);
+
+const ELEMENT_ID_DESCRIPTION =
+  "The unique identifier of the element, 5 characters in ABCDEFGHJKMNPQRSTWXYZabcdefhijkmnprstwxyz,";
+
+interface ArrowLineHandleDescriptions {
+  boundId: string;
+  connection: string;
+  marker: string;
+}
+
+function arrowLineHandleSchema(descriptions: ArrowLineHandleDescriptions) {
+  return z
+    .object({
+      boundId: z.string().min(1).optional().describe(descriptions.boundId),
+      connection: z
+        .tuple([connectionValueSchema, connectionValueSchema])
+        .optional()
+        .describe(descriptions.connection),
+      marker: z.nativeEnum(ArrowLineMarkerType).describe(descriptions.marker),
+    })
+    .passthrough()
+    .superRefine((handle, ctx) => {
+      if (handle.boundId && !handle.connection) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["connection"],
+          message: "is required when boundId is set",
+        });
+      }
+    });
+}
+
+export const arrowLineSourceSchema = arrowLineHandleSchema({
+  boundId: "线的起始位置连着的元素的id，如果起点没有连着其它元素，则不填",
+  connection: `该线条的起点连接元素的连接点，格式为 [x, y]， x 取值只能是 0 或 0.5 或 1， y 取值只能是 0 或 0.5 或 1，
+                    [0,0] 表示起点连接元素的左上角，[0,1] 表示起点连接元素的左下角，[1,0] 表示起点连接元素的右上角，[1,1] 表示起点连接元素的右下角，
+                    [0,0.5] 表示起点连接元素的左中，[1,0.5] 表示起点连接元素的右中，[0.5,0] 表示起点连接元素的上中，[0.5,1] 表示起点连接元素的下中，
+                    当 boundId 有值时，必填。`,
+  marker: `该线条的起点箭头类型，有箭头代表着流动方向，如果是从开头到结尾的单方向只需要在 target 中设置 marker，source 设置为 node 就行，只有双向流通的逻辑才需要在 source 中设置 marker。`,
+});
+
+export const arrowLineTargetSchema = arrowLineHandleSchema({
+  boundId: "线的终点连着的元素的id，如果终点没有连着其它元素，则不填",
+  connection: `该线条的终点连接元素的连接点，格式为 [x, y]， x 取值只能是 0 或 0.5 或 1， y 取值只能是 0 或 0.5 或 1，
+                    [0,0] 表示终点连接元素的左上角，[0,1] 表示终点连接元素的左下角，[1,0] 表示终点连接元素的右上角，[1,1] 表示终点连接元素的右下角，
+                    [0,0.5] 表示终点连接元素的左中，[1,0.5] 表示终点连接元素的右中，[0.5,0] 表示终点连接元素的上中，[0.5,1] 表示终点连接元素的下中，
+                    当 boundId 有值时，必填。`,
+  marker: `该线条的终点箭头类型，有箭头代表着流动方向，如果箭头线的方向从开头到结尾的单方向只需要在 target 中设置 marker，如果不需要特殊表达从开始到结尾的方向设置 marker 为 node 就行。`,
+});
+
+export const arrowLineTextSchema = z
+  .object({
+    text: textSchema,
+    position: z
+      .number()
+      .min(0, "must be between 0 and 1")
+      .max(1, "must be between 0 and 1")
+      .describe("The position of the text on the line, 0.5 is the middle"),
+  })
+  .passthrough();
+
+const elementBaseSchema = z
+  .object({
+    id: z.string().min(1, "must not be empty").describe(ELEMENT_ID_DESCRIPTION),
+    strokeColor: colorSchema.optional(),
+    strokeWidth: strokeWidthSchema.optional(),
+    strokeStyle: z.nativeEnum(StrokeStyle).optional(),
+  })
+  .passthrough();
+
+export const geometryElementSchema = elementBaseSchema.extend({
+  type: z.literal("geometry"),
+  shape: z.nativeEnum(GeometryShapes),
+  points: z
+    .tuple([pointSchema, pointSchema], {
+      errorMap: (issue, ctx) =>
+        issue.code === z.ZodIssueCode.too_small ||
+        issue.code === z.ZodIssueCode.too_big
+          ? {
+              message:
+                "must be exactly two points, the top left and bottom right corners",
+            }
+          : { message: ctx.defaultError },
+    })
+    .describe(
+      `The position of the element on the canvas, such as [[100, 100], [200, 200]]. 
+          With autoSize the bottom right corner is computed from the text`
+    ),
+  text: textSchema.optional(),
+  textAlign: z.nativeEnum(TextAlign).optional(),
+  fill: colorSchema.optional(),
+  autoSize: z
+    .boolean()
+    .optional()
+    .describe(
+      "Size the element to its text: text elements take the size of the text, other shapes grow until it fits"
+    ),
+});
+
+export const arrowLineElementSchema = elementBaseSchema.extend({
+  type: z.literal("arrow-line"),
+  shape: z.nativeEnum(ArrowLineShapes),
+  points: z.array(pointSchema).min(2, "must contain at least two points"),
+  texts: z.array(arrowLineTextSchema).default([]),
+  source: arrowLineSourceSchema.default({ marker: ArrowLineMarkerType.none }),
+  target: arrowLineTargetSchema.default({ marker: ArrowLineMarkerType.arrow }),
+});
+
+export const freehandElementSchema = elementBaseSchema.extend({
+  type: z.literal("freehand"),
+  shape: z.nativeEnum(FreehandShapes),
+  points: z.array(pointSchema).min(2, "must contain at least two points"),
+});
+
+export interface MindNodeInput {
+  id: string;
+  type: "mind_child";
+  data: { topic: unknown };
+  children: MindNodeInput[];
+}
+
+const mindDataSchema = z.object({ topic: textSchema }).passthrough();
+
+const mindNodeSchema: z.ZodType<MindNodeInput> = z.lazy(() =>
+  z
+    .object({
+      id: z.string().min(1, "must not be empty"),
+      type: z.literal("mind_child"),
+      data: mindDataSchema,
+      children: z.array(mindNodeSchema),
+    })
+    .passthrough()
+);
+
+export const mindElementSchema = elementBaseSchema.extend({
+  type: z.literal("mind"),
+  shape: z.nativeEnum(MindElementShape),
+  points: z.tuple([pointSchema], {
+    errorMap: (issue, ctx) =>
+      issue.code === z.ZodIssueCode.too_small ||
+      issue.code === z.ZodIssueCode.too_big
+        ? { message: "must be exactly one point, the central topic position" }
+        : { message: ctx.defaultError },
+  }),
+  layout: z.nativeEnum(MindLayoutType),
+  data: mindDataSchema,
+  children: z.array(mindNodeSchema),
+  rightNodeCount: z.number().int().nonnegative().optional(),
+});
+
+export const elementSchema = z.discriminatedUnion("type", [
+  geometryElementSchema,
+  arrowLineElementSchema,
+  freehandElementSchema,
+  mindElementSchema,
+]);
+
+// Elements drawn in the browser are only checked for the structure the
+// server relies on: Plait binds lines anywhere along an edge, e.g. [1, 0.4],
+// and Drawnix draws more shapes and markers than the tools create
+const ratioSchema = z
+  .number()
+  .min(0, "must be between 0 and 1")
+  .max(1, "must be between 0 and 1");
+
+const browserHandleSchema = z
+  .object({
+    boundId: z.string().min(1).optional(),
+    connection: z.tuple([ratioSchema, ratioSchema]).optional(),
+    marker: z.string().optional(),
+  })
+  .passthrough();
+
+const browserElementBaseSchema = z
+  .object({
+    id: z.string().min(1, "must not be empty"),
+    shape: z.string().min(1, "must not be empty"),
+  })
+  .passthrough();
+
+const browserElementSchema = z.discriminatedUnion("type", [
+  browserElementBaseSchema.extend({
+    type: z.literal("geometry"),
+    points: z.tuple([pointSchema, pointSchema]),
+  }),
+  browserElementBaseSchema.extend({
+    type: z.literal("arrow-line"),
+    points: z.array(pointSchema).min(2, "must contain at least two points"),
+    texts: z.array(z.object({}).passthrough()).default([]),
+    source: browserHandleSchema.default({}),
+    target: browserHandleSchema.default({}),
+  }),
+  browserElementBaseSchema.extend({
+    type: z.literal("freehand"),
+    points: z.array(pointSchema).min(2, "must contain at least two points"),
+  }),
+  browserElementBaseSchema.extend({
+    type: z.literal("mind"),
+    points: z.tuple([pointSchema]),
+    data: z.object({}).passthrough(),
+    children: z.array(z.object({}).passthrough()),
+  }),
+]);
+
+export const svgExportOptionsSchema = z.object({
+  ids: z
+    .array(z.string())
+    .optional()
+    .describe("Only export these elements, default all"),
+  region: z
+    .tuple([pointSchema, pointSchema])
+    .optional()
+    .describe(
+      "Only export the elements intersecting this area, given as its top left and bottom right corners [[x1, y1], [x2, y2]], and crop to it"
+    ),
+  padding: z
+    .number()
+    .nonnegative("must not be negative")
+    .optional()
+    .describe("The margin around the exported area, default 20"),
+  background: colorSchema
+    .optional()
+    .describe('The background colour, default "#ffffff", or "transparent"'),
+});
+
+export const historyOptionsSchema = z.object({
+  origin: z
+    .enum([...OPERATION_ORIGINS, "any"])
+    .optional()
+    .describe(
+      "Only undo or redo operations of this origin: mcp (agents), frontend (the browser board), api (other clients) or any, default any"
+    ),
+  steps: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .describe("The number of operations to undo or redo, default 1"),
+});
+
+export const snapshotOptionsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .max(100)
+    .describe('The name of the snapshot, such as "before refactoring"'),
+});
+
+// The ?name= and ?color= a WebSocket client connects with
+export const clientIdentitySchema = z.object({
+  name: z.string().trim().min(1).max(40).optional(),
+  color: colorSchema.optional(),
+});
+
+export const presenceUpdateSchema = z.object({
+  cursor: pointSchema.nullable().optional(),
+  selection: z.array(z.string()).max(1000).optional(),
+  viewport: z
+    .object({ zoom: z.number().positive(), origination: pointSchema })
+    .nullable()
+    .optional(),
+});
+
+// "elements.0.source.connection.1" -> "elements[0].source.connection[1]"
+function formatPath(path: (string | number)[]): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : index === 0
+          ? segment
+          : `.${segment}`
+    )
+    .join("");
+}
+
+function toFieldErrors(
+  error: z.ZodError,
+  prefix: (string | number)[] = []
+): FieldError[] {
+  return error.issues.map((issue) => ({
+    path: formatPath([...prefix, ...issue.path]),
+    message: issue.message,
+  }));
+}
+
+// Parse one element, filling in defaults such as empty arrow texts
+export function parseElement(
+  input: unknown,
+  prefix: (string | number)[] = []
+): ServerElement {
+  const result = elementSchema.safeParse(input);
+  if (!result.success) {
+    throw new ElementValidationError(
+      "Invalid element",
+      toFieldErrors(result.error, prefix)
+    );
+  }
+  return result.data as unknown as ServerElement;
+}
+
+// Arrow-lines may only bind to geometries, `find` looks up the other ends
+function bindingErrors(
+  element: ServerElement,
+  find: (id: string) => ServerElement | undefined,
+  prefix: (string | number)[]
+): FieldError[] {
+  if (element.type !== "arrow-line") return [];
+  const errors: FieldError[] = [];
+  (["source", "target"] as const).forEach((handle) => {
+    const boundId = element[handle]?.boundId;
+    if (!boundId) return;
+    const path = formatPath([...prefix, handle, "boundId"]);
+    const bound = boundId === element.id ? element : find(boundId);
+    if (!bound) {
+      errors.push({ path, message: `element ${boundId} not found` });
+    } else if (bound.type !== "geometry") {
+      errors.push({
+        path,
+        message: `element ${boundId} is ${bound.type}, arrow lines can only bind to geometry elements`,
+      });
+    }
+  });
+  return errors;
+}
+
+// Validate an element about to be stored, including what it is bound to
+export function validateElement(
+  input: unknown,
+  find: (id: string) => ServerElement | undefined
+): ServerElement {
+  const element = parseElement(input);
+  const errors = bindingErrors(element, find, []);
+  if (errors.length > 0) {
+    throw new ElementValidationError("Invalid element", errors);
+  }
+  return element;
+}
+
+// Validate an element drawn in the browser, see browserElementSchema
+export function validateBrowserElement(
+  input: unknown,
+  find: (id: string) => ServerElement | undefined
+): ServerElement {
+  const result = browserElementSchema.safeParse(input);
+  if (!result.success) {
+    throw new ElementValidationError(
+      "Invalid element",
+      toFieldErrors(result.error)
+    );
+  }
+  const element = result.data as unknown as ServerElement;
+  const errors = bindingErrors(element, find, []);
+  if (errors.length > 0) {
+    throw new ElementValidationError("Invalid element", errors);
+  }
+  return element;
+}
+
+// Validate an element merged with changes to it. One drawn in the browser,
+// whose stored version does not pass the strict schema, is held to
+// browserElementSchema instead so it can still be changed.
+export function validateUpdatedElement(
+  existing: ServerElement,
+  input: unknown,
+  find: (id: string) => ServerElement | undefined
+): ServerElement {
+  return elementSchema.safeParse(existing).success
+    ? validateElement(input, find)
+    : validateBrowserElement(input, find);
+}
+
+// Validate a batch of new elements as a whole before any of them is stored.
+// Arrow-lines may bind to elements that already exist or to elements created
+// earlier or later in the same batch.
+export function validateElementsBatch(
+  batch: unknown[],
+  find: (id: string) => ServerElement | undefined
+): ServerElement[] {
+  const errors: FieldError[] = [];
+  const parsed: { element: ServerElement; index: number }[] = [];
+  const batchElements = new Map<string, ServerElement>();
+
+  batch.forEach((input, index) => {
+    let element: ServerElement;
+    try {
+      element = parseElement(input, ["elements", index]);
+    } catch (error) {
+      errors.push(...(error as ElementValidationError).errors);
+      return;
+    }
+    const path = `elements[${index}].id`;
+    if (batchElements.has(element.id)) {
+      errors.push({ path, message: `duplicate id ${element.id} in batch` });
+    } else if (find(element.id)) {
+      errors.push({ path, message: `element ${element.id} already exists` });
+    } else {
+      batchElements.set(element.id, element);
+    }
+    parsed.push({ element, index });
+  });
+
+  parsed.forEach(({ element, index }) => {
+    errors.push(
+      ...bindingErrors(element, (id) => batchElements.get(id) || find(id), [
+        "elements",
+        index,
+      ])
+    );
+  });
+
+  if (errors.length > 0) {
+    throw new ElementValidationError("Invalid batch", errors);
+  }
+  return parsed.map(({ element }) => element);
+}
+
+// Parse the arguments of a tool call with the same field-level errors
+export function parseArguments<T extends z.ZodTypeAny>(
+  schema: T,
+  input: unknown
+): z.output<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new ElementValidationError(
+      "Invalid arguments",
+      toFieldErrors(result.error)
+    );
+  }
+  return result.data;
+}
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { AddressInfo, createServer } from "node:net";
+import { test } from "node:test";
+import { CanvasService } from "./canvas-service.js";
+import { startCanvasServer, stopCanvasServer } from "./server.js";
+
+// A port nothing listens on right now
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+test("sync answers 400 to elements that are not objects", async () => {
+  const service = new CanvasService({
+    storageType: "memory",
+    storagePath: "",
+    defaultBoardId: "default",
+  });
+  await service.load();
+  const port = await freePort();
+  await startCanvasServer(service, { port, host: "127.0.0.1" });
+
+  try {
+    const sync = (elements: unknown[]) =>
+      fetch(`http://127.0.0.1:${port}/api/elements/sync`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ elements }),
+      });
+    for (const element of [null, 1, "r1", []]) {
+      const response = await sync([element]);
+      assert.equal(response.status, 400);
+      assert.deepEqual(await response.json(), {
+        success: false,
+        error: "Expected elements[0] to be an object",
+      });
+    }
+    assert.equal((await sync([])).status, 200);
+  } finally {
+    await stopCanvasServer();
+  }
+});
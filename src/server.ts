@@ -1,23 +1,56 @@
 import express, { Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { WebSocketServer } from "ws";
-import { createServer } from "http";
+import { createServer, IncomingMessage } from "http";
 import path from "path";
 import { fileURLToPath } from "url";
 import dotenv from "dotenv";
 import logger from "./utils/logger.js";
+import { Board } from "./boards.js";
+import { renderSvg } from "./svg-export.js";
+import { exportMermaid } from "./mermaid.js";
+import {
+  excalidrawToPlait,
+  parseExcalidrawScene,
+  plaitToExcalidraw,
+} from "./excalidraw.js";
+import {
+  CanvasService,
+  ConflictError,
+  createCanvasService,
+  InvalidRequestError,
+  NotFoundError,
+  VersionConflictError,
+} from "./canvas-service.js";
+import { hasRole, Role, TokenAuth, TokenGrant } from "./auth.js";
+import { ORIGIN_HEADER, OperationOrigin, parseOrigin } from "./history.js";
 import {
-  elements,
   generateId,
-  PLAIT_ELEMENT_TYPES,
   ServerElement,
-  PlaitElementType,
   WebSocketMessage,
-  ElementCreatedMessage,
+  DeleteResponse,
+  ConflictResponse,
   SyncStatusMessage,
   InitialElementsMessage,
+  JoinBoardMessage,
+  ElementOperation,
+  ElementOperationsMessage,
+  OperationsAppliedMessage,
+  ErrorMessage,
+  ClientIdentity,
+  PresenceStateMessage,
+  PresenceUpdateMessage,
+  Point,
 } from "./plait-types.js";
-import { z } from "zod";
+import {
+  clientIdentitySchema,
+  ElementValidationError,
+  historyOptionsSchema,
+  parseArguments,
+  presenceUpdateSchema,
+  snapshotOptionsSchema,
+  svgExportOptionsSchema,
+} from "./schemas.js";
 import WebSocket from "ws";
 
 // Load environment variables
@@ -26,13 +59,78 @@ dotenv.config();
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Bearer tokens with roles, auth is off when none are configured
+const auth = new TokenAuth({
+  tokens: process.env.CANVAS_TOKENS,
+  file: process.env.CANVAS_AUTH_FILE,
+});
+
 const app = express();
 const server = createServer(app);
-const wss = new WebSocketServer({ server });
+const wss = new WebSocketServer({
+  server,
+  // Watching a board takes at least a viewer token
+  verifyClient: ({ req }, done) => {
+    if (auth.authenticate(TokenAuth.tokenOf(req))) {
+      done(true);
+    } else {
+      done(false, 401, "Unauthorized");
+    }
+  },
+});
+// The WebSocket server re-emits errors of the HTTP server, which
+// startCanvasServer already reports
+wss.on("error", () => {});
+
+// The boards this canvas serves, set when it starts
+let service: CanvasService;
 
 // Middleware
-app.use(cors());
-app.use(express.json());
+// CORS_ORIGINS limits the browser origins that may call the API
+app.use(
+  cors(
+    process.env.CORS_ORIGINS
+      ? {
+          origin: process.env.CORS_ORIGINS.split(",").map((origin) =>
+            origin.trim()
+          ),
+        }
+      : undefined
+  )
+);
+// .excalidraw imports of large drawings are far above the 100kb default
+app.use(express.json({ limit: "50mb" }));
+
+// The role a request needs: reading takes a viewer, writing an editor and
+// creating, renaming or deleting boards an admin
+function requiredRole(req: Request): Role {
+  if (["GET", "HEAD", "OPTIONS"].includes(req.method)) return "viewer";
+  return /^\/boards(\/[^/]+)?\/?$/.test(req.path) ? "admin" : "editor";
+}
+
+// Every /api route needs a token with the role the request needs
+app.use("/api", (req: Request, res: Response, next: NextFunction) => {
+  const grant = auth.authenticate(TokenAuth.tokenOf(req));
+  if (!grant) {
+    res.set("WWW-Authenticate", "Bearer");
+    res.status(401).json({
+      success: false,
+      error:
+        "Authentication required, send an Authorization: Bearer <token> header",
+    });
+    return;
+  }
+  const role = requiredRole(req);
+  if (!hasRole(grant, role)) {
+    res.status(403).json({
+      success: false,
+      error: `${grant.name} (${grant.role}) can not ${req.method} ${req.originalUrl}, that takes the ${role} role`,
+    });
+    return;
+  }
+  res.locals.grant = grant;
+  next();
+});
 
 // Serve static files from the build directory
 const staticDir = path.join(__dirname, "../dist");
@@ -40,77 +138,325 @@ app.use(express.static(staticDir));
 // Also serve frontend assets
 app.use(express.static(path.join(__dirname, "../dist/frontend")));
 
-// WebSocket connections
-const clients = new Set<WebSocket>();
+// WebSocket connections and the board each one is subscribed to
+const clients = new Map<WebSocket, string>();
+const identities = new Map<WebSocket, ClientIdentity>();
+const grants = new Map<WebSocket, TokenGrant>();
 
-// Broadcast to all connected clients
-function broadcast(message: WebSocketMessage): void {
+// Broadcast to the clients subscribed to a board, except the one whose change
+// it is, which already shows it
+function broadcast(
+  boardId: string,
+  message: WebSocketMessage,
+  except?: WebSocket
+): void {
   const data = JSON.stringify(message);
-  clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
+  clients.forEach((subscribedBoardId, client) => {
+    if (
+      subscribedBoardId === boardId &&
+      client !== except &&
+      client.readyState === WebSocket.OPEN
+    ) {
       client.send(data);
     }
   });
 }
 
-// WebSocket connection handling
-wss.on("connection", (ws: WebSocket) => {
-  clients.add(ws);
-  logger.info("New WebSocket connection established");
+// The connection of a client, by the client id the service knows it by
+function socketOf(clientId: string | undefined): WebSocket | undefined {
+  return Array.from(identities.entries()).find(
+    ([, identity]) => identity.clientId === clientId
+  )?.[0];
+}
+
+// Subscribe a client to a board and send it the board's current state
+function subscribe(ws: WebSocket, boardId: string): void {
+  const board = service.boards.get(boardId);
+  if (!board) {
+    const errorMessage: ErrorMessage = {
+      type: "error",
+      error: `Board ${boardId} not found`,
+    };
+    ws.send(JSON.stringify(errorMessage));
+    return;
+  }
+  const identity = identities.get(ws)!;
+  const previousBoardId = clients.get(ws);
+  if (previousBoardId !== undefined) {
+    service.presence.leave(previousBoardId, identity.clientId);
+  }
+  clients.set(ws, board.id);
 
   // Send current elements to new client
   const initialMessage: InitialElementsMessage = {
     type: "initial_elements",
-    elements: Array.from(elements.values()),
+    boardId: board.id,
+    elements: Array.from(board.elements.values()),
+    role: grants.get(ws)!.role,
   };
   ws.send(JSON.stringify(initialMessage));
 
   // Send sync status to new client
   const syncMessage: SyncStatusMessage = {
     type: "sync_status",
-    elementCount: elements.size,
+    elementCount: board.elements.size,
     timestamp: new Date().toISOString(),
   };
   ws.send(JSON.stringify(syncMessage));
 
+  // Tell the client who it is and who else is here, then tell the others
+  const presenceMessage: PresenceStateMessage = {
+    type: "presence_state",
+    self: identity,
+    clients: service.presence.list(board.id),
+  };
+  ws.send(JSON.stringify(presenceMessage));
+  service.presence.join(board.id, identity);
+}
+
+// Forget a closed connection and remove it from the presence of its board
+function disconnect(ws: WebSocket): void {
+  const boardId = clients.get(ws);
+  const identity = identities.get(ws);
+  if (boardId !== undefined && identity) {
+    service.presence.leave(boardId, identity.clientId);
+  }
+  clients.delete(ws);
+  identities.delete(ws);
+  grants.delete(ws);
+}
+
+// Apply the edits a browser made on its board and pass them on to the other
+// clients of the board
+function receiveOperations(
+  ws: WebSocket,
+  message: ElementOperationsMessage
+): void {
+  const boardId = clients.get(ws);
+  if (
+    boardId === undefined ||
+    !service.boards.has(boardId) ||
+    !Array.isArray(message.operations)
+  ) {
+    return;
+  }
+
+  const result = service.applyOperations(
+    boardId,
+    message.operations,
+    "frontend",
+    (changed) => `edit ${changed} elements in the browser`,
+    identities.get(ws)!.clientId
+  );
+  if (result.rejected.length > 0) {
+    logger.warn(
+      `Rejected ${result.rejected.length} browser edits on board ${boardId}`,
+      { rejected: result.rejected }
+    );
+  }
+
+  const versions: Record<string, number> = {};
+  result.changes.forEach(({ id, after }) => {
+    if (after) versions[id] = after.version ?? 0;
+  });
+  const reply: OperationsAppliedMessage = {
+    type: "operations_applied",
+    applied: result.changes.length,
+    rejected: result.rejected,
+    versions,
+  };
+  ws.send(JSON.stringify(reply));
+}
+
+// Record where a client's cursor is, what it selected and what it looks at
+function receivePresence(ws: WebSocket, message: PresenceUpdateMessage): void {
+  const boardId = clients.get(ws);
+  const identity = identities.get(ws);
+  const change = presenceUpdateSchema.safeParse(message);
+  if (boardId === undefined || !identity || !change.success) return;
+  service.presence.update(boardId, identity.clientId, change.data);
+}
+
+// WebSocket connection handling, the board comes from ?board=<id> or a
+// later join_board message
+wss.on("connection", (ws: WebSocket, req: IncomingMessage) => {
+  const url = new URL(req.url || "/", "http://localhost");
+  const boardId =
+    url.searchParams.get("board") || service.boards.defaultBoardId;
+  // A malformed name or colour falls back to a generated one
+  const requested = clientIdentitySchema.safeParse({
+    name: url.searchParams.get("name") ?? undefined,
+    color: url.searchParams.get("color") ?? undefined,
+  });
+  // The handshake was only accepted with a valid token
+  const grant = auth.authenticate(TokenAuth.tokenOf(req))!;
+  const identity = service.presence.createIdentity(
+    (requested.success ? requested.data.name : undefined) ||
+      (auth.enabled ? grant.name : undefined),
+    requested.success ? requested.data.color : undefined
+  );
+  identities.set(ws, identity);
+  grants.set(ws, grant);
+  logger.info(
+    `New WebSocket connection established (board ${boardId}, ${identity.name})`
+  );
+  subscribe(ws, boardId);
+
+  ws.on("message", (raw) => {
+    try {
+      const message = JSON.parse(raw.toString()) as WebSocketMessage;
+      if (message.type === "join_board") {
+        subscribe(ws, (message as JoinBoardMessage).boardId);
+      } else if (message.type === "element_operations") {
+        if (!hasRole(grants.get(ws)!, "editor")) {
+          const errorMessage: ErrorMessage = {
+            type: "error",
+            error: "Viewers can watch the board but not edit it",
+          };
+          ws.send(JSON.stringify(errorMessage));
+          return;
+        }
+        receiveOperations(ws, message as ElementOperationsMessage);
+      } else if (message.type === "presence_update") {
+        receivePresence(ws, message as PresenceUpdateMessage);
+      }
+    } catch (error) {
+      logger.warn("Ignoring malformed WebSocket message:", error);
+    }
+  });
+
   ws.on("close", () => {
-    clients.delete(ws);
+    disconnect(ws);
     logger.info("WebSocket connection closed");
   });
 
   ws.on("error", (error) => {
     logger.error("WebSocket error:", error);
-    clients.delete(ws);
+    disconnect(ws);
   });
 });
 
-// Schema validation
-// const CreateElementSchema = z.object({
-//   id: z.string().optional(), // Allow passing ID for MCP sync
-//   type: z.enum(Object.values(PLAIT_ELEMENT_TYPES) as [PlaitElementType, ...PlaitElementType[]]),
-//   x: z.number(),
-//   y: z.number(),
-//   width: z.number().optional(),
-//   height: z.number().optional(),
-//   backgroundColor: z.string().optional(),
-//   strokeColor: z.string().optional(),
-//   strokeWidth: z.number().optional(),
-//   roughness: z.number().optional(),
-//   opacity: z.number().optional(),
-//   text: z.string().optional(),
-//   label: z.object({
-//     text: z.string()
-//   }).optional(),
-//   fontSize: z.number().optional(),
-//   fontFamily: z.string().optional()
-// });
+// Element routes are scoped to a board through res.locals
+const boardRouter = express.Router({ mergeParams: true });
+
+function getBoard(res: Response): Board {
+  return res.locals.board as Board;
+}
+
+function resolveBoard(req: Request, res: Response, next: NextFunction): void {
+  const boardId = req.params.boardId || service.boards.defaultBoardId;
+  const board = service.boards.get(boardId);
+  if (!board) {
+    res.status(404).json({
+      success: false,
+      error: `Board ${boardId} not found, create it with POST /api/boards`,
+    });
+    return;
+  }
+  res.locals.board = board;
+  next();
+}
+
+// The origin of a write, named by the client in the X-Plait-Origin header
+function originOf(req: Request): OperationOrigin {
+  return parseOrigin(req.get(ORIGIN_HEADER));
+}
+
+// Error body of a rejected write, with field-level errors when validation
+// failed so the caller can fix exactly what is wrong
+function validationErrorBody(error: unknown) {
+  return {
+    success: false,
+    error: (error as Error).message,
+    ...(error instanceof ElementValidationError
+      ? { errors: error.errors }
+      : {}),
+  };
+}
+
+// Respond to a failed request: the service's errors get their own status,
+// stale writes a 409 with the stored elements to start over from, anything
+// else `status`
+function sendError(res: Response, error: unknown, status: number): void {
+  if (error instanceof VersionConflictError) {
+    const body: ConflictResponse = {
+      success: false,
+      error: error.message,
+      conflicts: error.conflicts,
+    };
+    res.status(409).json(body);
+    return;
+  }
+  res
+    .status(
+      error instanceof NotFoundError
+        ? 404
+        : error instanceof ConflictError
+          ? 409
+          : error instanceof InvalidRequestError ||
+              error instanceof ElementValidationError
+            ? 400
+            : status
+    )
+    .json(validationErrorBody(error));
+}
+
+// Parse an "x1,y1,x2,y2" query parameter, null when it is malformed
+function parseArea(
+  value: string | undefined
+): [Point, Point] | undefined | null {
+  if (!value) return undefined;
+  const [x1, y1, x2, y2, ...rest] = value.split(",").map(Number);
+  if (
+    rest.length > 0 ||
+    [x1, y1, x2, y2].some((coordinate) => !Number.isFinite(coordinate))
+  ) {
+    return null;
+  }
+  return [
+    [x1!, y1!],
+    [x2!, y2!],
+  ];
+}
+
+// Parse an "x,y" query parameter, null when it is malformed
+function parsePoint(value: string | undefined): Point | undefined | null {
+  if (!value) return undefined;
+  const [x, y, ...rest] = value.split(",").map(Number);
+  if (rest.length > 0 || ![x, y].every(Number.isFinite)) return null;
+  return [x!, y!];
+}
+
+// Parse an expected element version, given as a body field or a query
+// parameter, null when it is malformed
+function parseVersion(value: unknown): number | undefined | null {
+  if (value === undefined || value === "") return undefined;
+  const version = typeof value === "string" ? Number(value) : value;
+  return typeof version === "number" &&
+    Number.isInteger(version) &&
+    version >= 0
+    ? version
+    : null;
+}
+
+// Parse the version a write to one element is based on, throwing when it is
+// malformed
+function expectedVersionOf(value: unknown): number | undefined {
+  const expectedVersion = parseVersion(value);
+  if (expectedVersion === null) {
+    throw new InvalidRequestError(
+      "expectedVersion must be a non-negative integer"
+    );
+  }
+  return expectedVersion;
+}
 
 // API Routes
 
 // Get all elements
-app.get("/api/elements", (req: Request, res: Response) => {
+boardRouter.get("/elements", (req: Request, res: Response) => {
   try {
-    const elementsArray = Array.from(elements.values());
+    const elementsArray = service.listElements(getBoard(res).id);
     res.json({
       success: true,
       elements: elementsArray,
@@ -118,68 +464,75 @@ app.get("/api/elements", (req: Request, res: Response) => {
     });
   } catch (error) {
     logger.error("Error fetching elements:", error);
-    res.status(500).json({
-      success: false,
-      error: (error as Error).message,
-    });
+    sendError(res, error, 500);
   }
 });
 
 // Create new element
-app.post("/api/elements", (req: Request, res: Response) => {
+boardRouter.post("/elements", (req: Request, res: Response) => {
   try {
-    const params = req.body as unknown as ServerElement;
+    const params = req.body as Partial<ServerElement>;
     logger.info("Creating element via API", { type: params.type });
 
-    // Prioritize passed ID (for MCP sync), otherwise generate new ID
-    const id = params.id;
-    const element = {
-      ...params,
-      id: id,
-    };
-
-    elements.set(id, element);
-
-    // Broadcast to all connected clients
-    const message: ElementCreatedMessage = {
-      type: "element_created",
-      element: element,
-    };
-    broadcast(message);
-
+    const element = service.createElement(
+      getBoard(res).id,
+      params,
+      originOf(req)
+    );
     res.json({
       success: true,
       element: element,
     });
   } catch (error) {
     logger.error("Error creating element:", error);
-    res.status(400).json({
-      success: false,
-      error: (error as Error).message,
+    sendError(res, error, 400);
+  }
+});
+
+// Create multiple elements atomically
+boardRouter.post("/elements/batch", (req: Request, res: Response) => {
+  try {
+    const { elements: batch } = req.body as {
+      elements?: Partial<ServerElement>[];
+    };
+    logger.info(`Creating ${batch?.length ?? 0} elements via API (batch)`);
+
+    const elements = service.createElements(
+      getBoard(res).id,
+      batch!,
+      originOf(req)
+    );
+    res.json({
+      success: true,
+      elements,
+      count: elements.length,
     });
+  } catch (error) {
+    logger.error("Error creating elements batch:", error);
+    sendError(res, error, 400);
   }
 });
 
 // Query elements with filters
-app.get("/api/elements/search", (req: Request, res: Response) => {
+boardRouter.get("/elements/search", (req: Request, res: Response) => {
   try {
-    const { type, ...filters } = req.query;
-    let results = Array.from(elements.values());
+    const { type, shape, text, within, boundTo, connectedTo, ...filters } =
+      req.query as Record<string, string | undefined>;
 
-    // Filter by type if specified
-    if (type && typeof type === "string") {
-      results = results.filter((element) => element.type === type);
-    }
-
-    // Apply additional filters
-    if (Object.keys(filters).length > 0) {
-      results = results.filter((element) => {
-        return Object.entries(filters).every(([key, value]) => {
-          return (element as any)[key] === value;
-        });
+    // within=x1,y1,x2,y2 is the rectangle results must intersect
+    const area = parseArea(within);
+    if (area === null) {
+      return res.status(400).json({
+        success: false,
+        error: "within must be x1,y1,x2,y2",
       });
     }
 
+    const results = service.searchElements(
+      getBoard(res).id,
+      { type, shape, text, within: area, boundTo, connectedTo },
+      filters as Record<string, string>
+    );
     res.json({
       success: true,
       elements: results,
@@ -187,56 +540,374 @@ app.get("/api/elements/search", (req: Request, res: Response) => {
     });
   } catch (error) {
     logger.error("Error querying elements:", error);
-    res.status(500).json({
-      success: false,
-      error: (error as Error).message,
-    });
+    sendError(res, error, 500);
   }
 });
 
-// Get element by ID
-app.get("/api/elements/:id", (req: Request, res: Response) => {
+// Export the board, or part of it, as a standalone SVG
+boardRouter.get("/export.svg", (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
+    const { ids, region, padding, background } = req.query as Record<
+      string,
+      string | undefined
+    >;
 
-    if (!id) {
+    const area = parseArea(region);
+    if (area === null) {
       return res.status(400).json({
         success: false,
-        error: "Element ID is required",
+        error: "region must be x1,y1,x2,y2",
       });
     }
+    const options = parseArguments(svgExportOptionsSchema, {
+      ids: ids ? ids.split(",") : undefined,
+      region: area,
+      padding: padding === undefined ? undefined : Number(padding),
+      background,
+    });
+
+    const svg = renderSvg(service.listElements(getBoard(res).id), options);
+    res.type("image/svg+xml").send(svg);
+  } catch (error) {
+    logger.error("Error exporting SVG:", error);
+    sendError(res, error, 400);
+  }
+});
+
+// Export the board graph as a Mermaid flowchart
+boardRouter.get("/export.mmd", (req: Request, res: Response) => {
+  try {
+    const mermaid = exportMermaid(service.listElements(getBoard(res).id));
+    res.type("text/plain").send(mermaid);
+  } catch (error) {
+    logger.error("Error exporting Mermaid:", error);
+    sendError(res, error, 500);
+  }
+});
 
-    const element = elements.get(id);
+// Export the board as a .excalidraw file
+boardRouter.get("/export.excalidraw", (req: Request, res: Response) => {
+  try {
+    const file = plaitToExcalidraw(service.listElements(getBoard(res).id));
+    res.type("application/json").send(JSON.stringify(file, null, 2));
+  } catch (error) {
+    logger.error("Error exporting Excalidraw:", error);
+    sendError(res, error, 500);
+  }
+});
 
-    if (!element) {
-      return res.status(404).json({
+// Import the contents of a .excalidraw file, ?origin=x,y moves it
+boardRouter.post("/import.excalidraw", (req: Request, res: Response) => {
+  try {
+    const origin = parsePoint(req.query.origin as string | undefined);
+    if (origin === null) {
+      return res.status(400).json({
+        success: false,
+        error: "origin must be x,y",
+      });
+    }
+
+    const { elements: batch, skipped } = excalidrawToPlait(
+      parseExcalidrawScene(req.body),
+      { origin }
+    );
+    if (batch.length === 0) {
+      return res.status(400).json({
         success: false,
-        error: `Element with ID ${id} not found`,
+        error: "The Excalidraw scene has no elements that can be imported",
       });
     }
+    logger.info(`Importing ${batch.length} elements from Excalidraw`);
+
+    const elements = service.createElements(
+      getBoard(res).id,
+      batch,
+      originOf(req),
+      `import ${batch.length} elements from Excalidraw`
+    );
+    res.json({
+      success: true,
+      elements,
+      count: elements.length,
+      skipped,
+    });
+  } catch (error) {
+    logger.error("Error importing Excalidraw:", error);
+    sendError(res, error, 400);
+  }
+});
 
+// Get element by ID
+boardRouter.get("/elements/:id", (req: Request, res: Response) => {
+  try {
+    const element = service.getElement(getBoard(res).id, req.params.id!);
     res.json({
       success: true,
       element: element,
     });
   } catch (error) {
     logger.error("Error fetching element:", error);
-    res.status(500).json({
-      success: false,
-      error: (error as Error).message,
+    sendError(res, error, 500);
+  }
+});
+
+// Update element by ID (partial merge)
+boardRouter.patch("/elements/:id", (req: Request, res: Response) => {
+  try {
+    const board = getBoard(res);
+    const id = req.params.id!;
+    service.getElement(board.id, id);
+
+    // The ID and type of an element are immutable
+    const {
+      id: _id,
+      type: _type,
+      expectedVersion,
+      ...changes
+    } = req.body as Partial<ServerElement> & { expectedVersion?: unknown };
+    logger.info(`Updating element via API: ${id}`, {
+      fields: Object.keys(changes),
+    });
+
+    const element = service.updateElement(
+      board.id,
+      id,
+      changes,
+      expectedVersionOf(expectedVersion),
+      originOf(req)
+    );
+    res.json({
+      success: true,
+      element: element,
     });
+  } catch (error) {
+    logger.error("Error updating element:", error);
+    sendError(res, error, 400);
   }
 });
 
-// Sync elements from frontend (overwrite sync)
-app.post("/api/elements/sync", (req: Request, res: Response) => {
+// Delete element by ID
+boardRouter.delete("/elements/:id", (req: Request, res: Response) => {
   try {
-    const { elements: frontendElements, timestamp } = req.body;
+    const board = getBoard(res);
+    const id = req.params.id!;
+    service.getElement(board.id, id);
 
-    logger.info(`Sync request received: ${frontendElements.length} elements`, {
-      timestamp,
-      elementCount: frontendElements.length,
+    const expectedVersion = expectedVersionOf(req.query.expectedVersion);
+    const cascade = req.query.cascade === "true";
+    logger.info(`Deleting element via API: ${id}`, { cascade });
+
+    const body: DeleteResponse = {
+      success: true,
+      ...service.deleteElements(
+        board.id,
+        [id],
+        {
+          cascade,
+          expectedVersions:
+            expectedVersion === undefined ? {} : { [id]: expectedVersion },
+        },
+        originOf(req)
+      ),
+    };
+    res.json(body);
+  } catch (error) {
+    logger.error("Error deleting element:", error);
+    sendError(res, error, 400);
+  }
+});
+
+// Bulk delete: the listed IDs, or every element when no IDs are given
+boardRouter.delete("/elements", (req: Request, res: Response) => {
+  try {
+    const {
+      ids,
+      cascade,
+      expectedVersions = {},
+    } = (req.body || {}) as {
+      ids?: string[];
+      cascade?: boolean;
+      expectedVersions?: Record<string, unknown>;
+    };
+
+    if (
+      ids !== undefined &&
+      (!Array.isArray(ids) || !ids.every((id) => typeof id === "string"))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "Expected ids to be an array of element ids",
+      });
+    }
+    if (
+      typeof expectedVersions !== "object" ||
+      expectedVersions === null ||
+      Array.isArray(expectedVersions)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "Expected expectedVersions to map element ids to versions",
+      });
+    }
+    const versions: Record<string, number> = {};
+    for (const [id, value] of Object.entries(expectedVersions)) {
+      const version = parseVersion(value);
+      if (version === undefined || version === null) {
+        return res.status(400).json({
+          success: false,
+          error: `expectedVersions.${id} must be a non-negative integer`,
+        });
+      }
+      versions[id] = version;
+    }
+
+    logger.info(`Bulk deleting ${ids?.length ?? "all"} elements via API`, {
+      clear: ids === undefined,
+      cascade: !!cascade,
+    });
+
+    const body: DeleteResponse = {
+      success: true,
+      ...service.deleteElements(
+        getBoard(res).id,
+        ids,
+        { cascade: !!cascade, expectedVersions: versions },
+        originOf(req)
+      ),
+    };
+    res.json(body);
+  } catch (error) {
+    logger.error("Error deleting elements:", error);
+    sendError(res, error, 400);
+  }
+});
+
+// The undo and redo stacks, latest first
+boardRouter.get("/history", (req: Request, res: Response) => {
+  const board = getBoard(res);
+  res.json({ success: true, ...board.history.list() });
+});
+
+// Undo or redo the latest operations, optionally only those of one origin
+function historyRoute(direction: "undo" | "redo") {
+  return (req: Request, res: Response) => {
+    try {
+      const options = parseArguments(historyOptionsSchema, req.body || {});
+      const { entries, stopped } = service.history(
+        getBoard(res).id,
+        direction,
+        options.origin === "any" ? undefined : options.origin,
+        options.steps
+      );
+
+      if (entries.length === 0) {
+        return res.status(stopped ? 409 : 400).json({
+          success: false,
+          error: stopped || `Nothing to ${direction}`,
+        });
+      }
+      res.json({
+        success: true,
+        [direction === "undo" ? "undone" : "redone"]: entries,
+        ...(stopped && { stopped }),
+      });
+    } catch (error) {
+      logger.error(`Error during ${direction}:`, error);
+      sendError(res, error, 400);
+    }
+  };
+}
+
+boardRouter.post("/undo", historyRoute("undo"));
+boardRouter.post("/redo", historyRoute("redo"));
+
+// List snapshots, oldest first
+boardRouter.get("/snapshots", (req: Request, res: Response) => {
+  const board = getBoard(res);
+  const snapshots = board.snapshots.list();
+  res.json({ success: true, snapshots, count: snapshots.length });
+});
+
+// Save the current elements under a name
+boardRouter.post("/snapshots", (req: Request, res: Response) => {
+  try {
+    const { name } = parseArguments(snapshotOptionsSchema, req.body || {});
+    const snapshot = service.saveSnapshot(getBoard(res).id, name);
+    res.json({ success: true, snapshot });
+  } catch (error) {
+    logger.error("Error saving snapshot:", error);
+    sendError(res, error, 400);
+  }
+});
+
+// Added, removed and modified elements between two snapshots; `to` defaults
+// to the current board, and "current" names it explicitly
+boardRouter.get("/snapshots/diff", (req: Request, res: Response) => {
+  try {
+    const { from, to = "current" } = req.query as Record<
+      string,
+      string | undefined
+    >;
+    if (!from) {
+      return res.status(400).json({
+        success: false,
+        error: "from is required",
+      });
+    }
+
+    const diff = service.diffSnapshots(getBoard(res).id, from, to);
+    res.json({ success: true, from, to, ...diff });
+  } catch (error) {
+    sendError(res, error, 500);
+  }
+});
+
+// A snapshot with its elements, by id or name
+boardRouter.get("/snapshots/:id", (req: Request, res: Response) => {
+  try {
+    const snapshot = service.getSnapshot(getBoard(res).id, req.params.id!);
+    res.json({ success: true, snapshot });
+  } catch (error) {
+    sendError(res, error, 500);
+  }
+});
+
+// Replace the board's elements with a snapshot, as one undoable operation
+boardRouter.post("/snapshots/:id/restore", (req: Request, res: Response) => {
+  try {
+    const { snapshot, elements } = service.restoreSnapshot(
+      getBoard(res).id,
+      req.params.id!,
+      originOf(req)
+    );
+    res.json({
+      success: true,
+      snapshot,
+      elements,
+      count: elements.length,
     });
+  } catch (error) {
+    logger.error("Error restoring snapshot:", error);
+    sendError(res, error, 500);
+  }
+});
+
+boardRouter.delete("/snapshots/:id", (req: Request, res: Response) => {
+  try {
+    const deletedId = service.deleteSnapshot(getBoard(res).id, req.params.id!);
+    res.json({ success: true, deletedId });
+  } catch (error) {
+    sendError(res, error, 400);
+  }
+});
+
+// Sync the whole board from the frontend. Only the elements that differ are
+// written, stale ones are rejected; elements missing from the list are
+// deleted.
+boardRouter.post("/elements/sync", (req: Request, res: Response) => {
+  try {
+    const board = getBoard(res);
+    const { elements: frontendElements, timestamp } = req.body;
 
     // Validate input data
     if (!Array.isArray(frontendElements)) {
@@ -245,62 +916,67 @@ app.post("/api/elements/sync", (req: Request, res: Response) => {
         error: "Expected elements to be an array",
       });
     }
+    const invalid = frontendElements.findIndex(
+      (element) =>
+        !element || typeof element !== "object" || Array.isArray(element)
+    );
+    if (invalid !== -1) {
+      return res.status(400).json({
+        success: false,
+        error: `Expected elements[${invalid}] to be an object`,
+      });
+    }
 
-    // Record element count before sync
-    const beforeCount = elements.size;
-
-    // 1. Clear existing memory storage
-    elements.clear();
-    logger.info(`Cleared existing elements: ${beforeCount} elements removed`);
-
-    // 2. Batch write new data
-    let successCount = 0;
-    const processedElements: ServerElement[] = [];
-
-    frontendElements.forEach((element: any, index: number) => {
-      try {
-        // Ensure element has ID, generate one if missing
-        const elementId = element.id || generateId();
-
-        // Add server metadata
-        const processedElement: ServerElement = {
-          ...element,
-          id: elementId,
-          syncedAt: new Date().toISOString(),
-          source: "frontend_sync",
-          syncTimestamp: timestamp,
-          version: 1,
-        };
-
-        // Store to memory
-        elements.set(elementId, processedElement);
-        processedElements.push(processedElement);
-        successCount++;
-      } catch (elementError) {
-        logger.warn(`Failed to process element ${index}:`, elementError);
-      }
+    logger.info(`Sync request received: ${frontendElements.length} elements`, {
+      timestamp,
+      elementCount: frontendElements.length,
     });
 
+    const beforeCount = board.elements.size;
+    const elements = (frontendElements as Partial<ServerElement>[]).map(
+      (element) => ({ ...element, id: element.id || generateId() })
+    ) as ServerElement[];
+    const kept = new Set(elements.map((element) => element.id));
+    // The version of a listed element is the one it is based on, elements
+    // without one are new
+    const operations: ElementOperation[] = [
+      ...elements.map((element): ElementOperation => {
+        const baseVersion = parseVersion(element.version);
+        return typeof baseVersion === "number"
+          ? { op: "update", element, baseVersion }
+          : { op: "create", element };
+      }),
+      ...Array.from(board.elements.values())
+        .filter((element) => !kept.has(element.id))
+        .map((element) => ({ op: "delete" as const, id: element.id })),
+    ];
+
+    const { changes, rejected } = service.applyOperations(
+      board.id,
+      operations,
+      "frontend",
+      () => "sync from the browser"
+    );
     logger.info(
-      `Sync completed: ${successCount}/${frontendElements.length} elements synced`
+      `Sync completed: ${changes.length} elements changed, ${rejected.length} rejected`
     );
 
-    // 3. Broadcast sync event to all WebSocket clients
-    broadcast({
+    const count = elements.length - rejected.length;
+    broadcast(board.id, {
       type: "elements_synced",
-      count: successCount,
+      count,
       timestamp: new Date().toISOString(),
       source: "manual_sync",
     });
 
-    // 4. Return sync results
     res.json({
       success: true,
-      message: `Successfully synced ${successCount} elements`,
-      count: successCount,
+      message: `Successfully synced ${count} elements, ${changes.length} changed`,
+      count,
       syncedAt: new Date().toISOString(),
       beforeCount,
-      afterCount: elements.size,
+      afterCount: board.elements.size,
+      rejected,
     });
   } catch (error) {
     logger.error("Sync error:", error);
@@ -312,6 +988,92 @@ app.post("/api/elements/sync", (req: Request, res: Response) => {
   }
 });
 
+// Sync status endpoint
+boardRouter.get("/sync/status", (req: Request, res: Response) => {
+  const board = getBoard(res);
+  res.json({
+    success: true,
+    boardId: board.id,
+    elementCount: board.elements.size,
+    timestamp: new Date().toISOString(),
+    memoryUsage: {
+      heapUsed: Math.round(process.memoryUsage().heapUsed / 1024 / 1024), // MB
+      heapTotal: Math.round(process.memoryUsage().heapTotal / 1024 / 1024), // MB
+    },
+    websocketClients: Array.from(clients.values()).filter(
+      (boardId) => boardId === board.id
+    ).length,
+  });
+});
+
+// Board management
+
+// List boards
+app.get("/api/boards", (req: Request, res: Response) => {
+  const list = service.boards.list();
+  res.json({
+    success: true,
+    boards: list,
+    count: list.length,
+  });
+});
+
+// Create board
+app.post("/api/boards", async (req: Request, res: Response) => {
+  try {
+    const { id, name } = req.body as { id?: string; name?: string };
+    const board = await service.createBoard(id, name);
+    res.status(201).json({
+      success: true,
+      board,
+    });
+  } catch (error) {
+    logger.error("Error creating board:", error);
+    sendError(res, error, 400);
+  }
+});
+
+// Rename board
+app.patch("/api/boards/:boardId", (req: Request, res: Response) => {
+  try {
+    const { name } = req.body as { name?: string };
+    const board = service.renameBoard(req.params.boardId!, name!);
+    res.json({
+      success: true,
+      board,
+    });
+  } catch (error) {
+    logger.error("Error renaming board:", error);
+    sendError(res, error, 400);
+  }
+});
+
+// Delete board, its subscribers are told and disconnected
+app.delete("/api/boards/:boardId", async (req: Request, res: Response) => {
+  try {
+    const boardId = req.params.boardId!;
+    await service.deleteBoard(boardId);
+    clients.forEach((subscribedBoardId, client) => {
+      if (subscribedBoardId === boardId) {
+        clients.delete(client);
+        client.close(1000, "Board deleted");
+      }
+    });
+
+    res.json({
+      success: true,
+      boardId,
+    });
+  } catch (error) {
+    logger.error("Error deleting board:", error);
+    sendError(res, error, 400);
+  }
+});
+
+// Board-scoped routes, /api/elements is an alias for the default board
+app.use("/api/boards/:boardId", resolveBoard, boardRouter);
+app.use("/api", resolveBoard, boardRouter);
+
 // Serve the frontend
 app.get("/", (req: Request, res: Response) => {
   const htmlFile = path.join(__dirname, "../dist/frontend/index.html");
@@ -326,29 +1088,23 @@ app.get("/", (req: Request, res: Response) => {
 });
 
 // Health check endpoint
+// Health checks need no token, the counts only go to those who may read the
+// boards
 app.get("/health", (req: Request, res: Response) => {
+  const health = { status: "healthy", timestamp: new Date().toISOString() };
+  if (!auth.authenticate(TokenAuth.tokenOf(req))) {
+    res.json(health);
+    return;
+  }
+  const boards = service.boards.list();
   res.json({
-    status: "healthy",
-    timestamp: new Date().toISOString(),
-    elements_count: elements.size,
+    ...health,
+    boards_count: boards.length,
+    elements_count: boards.reduce((sum, board) => sum + board.elementCount, 0),
     websocket_clients: clients.size,
   });
 });
 
-// Sync status endpoint
-app.get("/api/sync/status", (req: Request, res: Response) => {
-  res.json({
-    success: true,
-    elementCount: elements.size,
-    timestamp: new Date().toISOString(),
-    memoryUsage: {
-      heapUsed: Math.round(process.memoryUsage().heapUsed / 1024 / 1024), // MB
-      heapTotal: Math.round(process.memoryUsage().heapTotal / 1024 / 1024), // MB
-    },
-    websocketClients: clients.size,
-  });
-});
-
 // Error handling middleware
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
   logger.error("Unhandled error:", err);
@@ -358,13 +1114,82 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
   });
 });
 
-// Start server
-const PORT = parseInt(process.env.PORT || "3000", 10);
-const HOST = process.env.HOST || "localhost";
+export interface CanvasServerOptions {
+  port: number;
+  host: string;
+}
 
-server.listen(PORT, HOST, () => {
-  logger.info(`POC server running on http://${HOST}:${PORT}`);
-  logger.info(`WebSocket server running on ws://${HOST}:${PORT}`);
-});
+// PORT and HOST, or localhost:3000
+export function canvasServerOptions(): CanvasServerOptions {
+  return {
+    port: parseInt(process.env.PORT || "3000", 10),
+    host: process.env.HOST || "localhost",
+  };
+}
+
+/**
+ * Serve the boards of a loaded service over HTTP and WebSocket, on its own or
+ * next to the MCP server in the same process. Resolves once it listens; a
+ * process runs one canvas server.
+ */
+export function startCanvasServer(
+  canvas: CanvasService,
+  { port, host }: CanvasServerOptions = canvasServerOptions()
+): Promise<void> {
+  service = canvas;
+  service.onMessage((boardId, message, exceptClientId) =>
+    broadcast(boardId, message, socketOf(exceptClientId))
+  );
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      logger.info(`POC server running on http://${host}:${port}`);
+      logger.info(`WebSocket server running on ws://${host}:${port}`);
+      if (!auth.enabled) {
+        logger.warn(
+          "Token auth is off, anyone who can reach the server can edit every board. Set CANVAS_TOKENS or CANVAS_AUTH_FILE to turn it on"
+        );
+      }
+      resolve();
+    });
+  });
+}
+
+// Stop accepting connections and close the open ones
+export function stopCanvasServer(): Promise<void> {
+  wss.clients.forEach((client) => client.close(1001, "Server shutting down"));
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+// Restore stored boards before accepting HTTP or WebSocket connections
+async function startServer(): Promise<void> {
+  const canvas = createCanvasService();
+  await canvas.load();
+  await startCanvasServer(canvas);
+
+  // Flush storage on shutdown
+  const shutdown = async (signal: string): Promise<void> => {
+    logger.info(`Received ${signal}, shutting down`);
+    server.close();
+    try {
+      await canvas.close();
+    } catch (error) {
+      logger.error("Error closing element storage:", error);
+    }
+    process.exit(0);
+  };
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+}
+
+// Start the canvas server if this file is run directly
+if (fileURLToPath(import.meta.url) === process.argv[1]) {
+  startServer().catch((error) => {
+    logger.error("Failed to start server:", error);
+    process.exit(1);
+  });
+}
 
 export default app;
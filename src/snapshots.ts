@@ -0,0 +1,196 @@
+import fs from "fs";
+import path from "path";
+import logger from "./utils/logger.js";
+import { generateId, ServerElement } from "./plait-types.js";
+import { METADATA_FIELDS } from "./history.js";
+import { summarizeElement } from "./query.js";
+
+export interface SnapshotInfo {
+  id: string;
+  name: string;
+  createdAt: string;
+  elementCount: number;
+}
+
+export interface Snapshot extends SnapshotInfo {
+  elements: ServerElement[];
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ElementDiff {
+  added: ServerElement[];
+  removed: ServerElement[];
+  modified: { id: string; type: string; changes: FieldChange[] }[];
+}
+
+/**
+ * Named copies of a board's elements. With file storage every snapshot is a
+ * JSON file in `<boardDirectory>/snapshots`, otherwise they live in memory.
+ */
+export class SnapshotStore {
+  private readonly snapshots = new Map<string, Snapshot>();
+
+  // No directory keeps the snapshots in memory only
+  constructor(private readonly directory: string | null) {}
+
+  async load(): Promise<void> {
+    this.snapshots.clear();
+    if (!this.directory || !fs.existsSync(this.directory)) return;
+    fs.readdirSync(this.directory)
+      .filter((file) => file.endsWith(".json"))
+      .forEach((file) => {
+        try {
+          const snapshot = JSON.parse(
+            fs.readFileSync(path.join(this.directory!, file), "utf8")
+          ) as Snapshot;
+          this.snapshots.set(snapshot.id, snapshot);
+        } catch (error) {
+          logger.warn(`Ignoring unreadable snapshot ${file}:`, error);
+        }
+      });
+  }
+
+  // Oldest first
+  list(): SnapshotInfo[] {
+    return Array.from(this.snapshots.values())
+      .map(({ elements: _elements, ...info }) => info)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // Look a snapshot up by id or by name
+  get(idOrName: string): Snapshot | undefined {
+    return (
+      this.snapshots.get(idOrName) ||
+      Array.from(this.snapshots.values()).find(
+        (snapshot) => snapshot.name === idOrName
+      )
+    );
+  }
+
+  save(name: string, elements: ServerElement[]): Snapshot {
+    if (this.get(name)) {
+      throw new Error(`Snapshot ${name} already exists`);
+    }
+    const snapshot: Snapshot = {
+      id: generateId(),
+      name,
+      createdAt: new Date().toISOString(),
+      elementCount: elements.length,
+      // Later writes must not change the saved copy
+      elements: JSON.parse(JSON.stringify(elements)) as ServerElement[],
+    };
+    this.snapshots.set(snapshot.id, snapshot);
+    this.write(snapshot);
+    return snapshot;
+  }
+
+  delete(idOrName: string): boolean {
+    const snapshot = this.get(idOrName);
+    if (!snapshot) return false;
+    this.snapshots.delete(snapshot.id);
+    if (this.directory) {
+      fs.rmSync(this.filePath(snapshot.id), { force: true });
+    }
+    return true;
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory!, `${id}.json`);
+  }
+
+  // Write the snapshot file atomically
+  private write(snapshot: Snapshot): void {
+    if (!this.directory) return;
+    fs.mkdirSync(this.directory, { recursive: true });
+    const file = this.filePath(snapshot.id);
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(snapshot));
+    fs.renameSync(`${file}.tmp`, file);
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Top-level properties that differ, bookkeeping fields aside
+export function diffFields(
+  before: ServerElement,
+  after: ServerElement
+): FieldChange[] {
+  const previous = before as unknown as Record<string, unknown>;
+  const next = after as unknown as Record<string, unknown>;
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  return Array.from(fields)
+    .filter(
+      (field) =>
+        !METADATA_FIELDS.has(field) && !sameValue(previous[field], next[field])
+    )
+    .map((field) => ({
+      field,
+      before: previous[field],
+      after: next[field],
+    }));
+}
+
+// Elements added, removed and modified going from `before` to `after`
+export function diffElements(
+  before: ServerElement[],
+  after: ServerElement[]
+): ElementDiff {
+  const beforeById = new Map(before.map((element) => [element.id, element]));
+  const afterById = new Map(after.map((element) => [element.id, element]));
+
+  return {
+    added: after.filter((element) => !beforeById.has(element.id)),
+    removed: before.filter((element) => !afterById.has(element.id)),
+    modified: after.flatMap((element) => {
+      const previous = beforeById.get(element.id);
+      if (!previous) return [];
+      const changes = diffFields(previous, element);
+      return changes.length > 0
+        ? [{ id: element.id, type: element.type, changes }]
+        : [];
+    }),
+  };
+}
+
+const MAX_VALUE_LENGTH = 60;
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "(none)";
+  const text = JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH
+    ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…`
+    : text;
+}
+
+/**
+ * A diff as text, e.g.
+ * `+ aB3dE geometry/rectangle "Cache" at [400, 100] 120x60`
+ * `~ fG8hJ geometry: text "API" -> "Gateway"`
+ */
+export function summarizeDiff(diff: ElementDiff): string {
+  const lines = [
+    `${diff.added.length} added, ${diff.removed.length} removed, ${diff.modified.length} modified`,
+  ];
+  diff.added.forEach((element) => lines.push(`+ ${summarizeElement(element)}`));
+  diff.removed.forEach((element) =>
+    lines.push(`- ${summarizeElement(element)}`)
+  );
+  diff.modified.forEach(({ id, type, changes }) =>
+    lines.push(
+      `~ ${id} ${type}: ${changes
+        .map(
+          ({ field, before, after }) =>
+            `${field} ${formatValue(before)} -> ${formatValue(after)}`
+        )
+        .join(", ")}`
+    )
+  );
+  return lines.join("\n");
+}
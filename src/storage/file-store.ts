@@ -0,0 +1,150 @@
+import fs from "fs";
+import path from "path";
+import logger from "../utils/logger.js";
+import { ServerElement } from "../plait-types.js";
+import { MemoryElementStore } from "./memory-store.js";
+
+type LogEntry =
+  | { op: "set"; element: ServerElement }
+  | { op: "delete"; id: string }
+  | { op: "clear" };
+
+interface Snapshot {
+  savedAt: string;
+  elements: ServerElement[];
+}
+
+const SNAPSHOT_FILE = "elements.json";
+const LOG_FILE = "elements.log";
+const COMPACT_THRESHOLD = 1000;
+
+/**
+ * Local file store: a JSON snapshot plus an append-only log of writes since
+ * that snapshot. Every write is fsynced to the log before it returns, and the
+ * snapshot is replaced atomically (write temp file, fsync, rename) when the
+ * log is compacted.
+ */
+export class FileElementStore extends MemoryElementStore {
+  private readonly snapshotPath: string;
+  private readonly logPath: string;
+  private logFd: number | null = null;
+  private logEntries = 0;
+
+  constructor(private readonly directory: string) {
+    super();
+    this.snapshotPath = path.join(directory, SNAPSHOT_FILE);
+    this.logPath = path.join(directory, LOG_FILE);
+  }
+
+  override set(id: string, element: ServerElement): this {
+    this.append({ op: "set", element });
+    return super.set(id, element);
+  }
+
+  override delete(id: string): boolean {
+    if (!this.map.has(id)) return false;
+    this.append({ op: "delete", id });
+    return super.delete(id);
+  }
+
+  override clear(): void {
+    this.append({ op: "clear" });
+    super.clear();
+  }
+
+  override async load(): Promise<void> {
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.map.clear();
+
+    if (fs.existsSync(this.snapshotPath)) {
+      const snapshot = JSON.parse(
+        fs.readFileSync(this.snapshotPath, "utf8")
+      ) as Snapshot;
+      snapshot.elements.forEach((element) => this.map.set(element.id, element));
+    }
+
+    let replayed = 0;
+    if (fs.existsSync(this.logPath)) {
+      const lines = fs.readFileSync(this.logPath, "utf8").split("\n");
+      for (const [index, line] of lines.entries()) {
+        if (line.trim() === "") continue;
+        let entry: LogEntry;
+        try {
+          entry = JSON.parse(line) as LogEntry;
+        } catch (error) {
+          // A torn last line is a write interrupted by a crash, drop it
+          logger.warn(
+            `Ignoring unreadable storage log entry at line ${index + 1}`
+          );
+          break;
+        }
+        this.apply(entry);
+        replayed++;
+      }
+    }
+
+    // Fold the replayed log into a fresh snapshot before accepting writes
+    this.compact();
+    logger.info(
+      `Loaded ${this.map.size} elements from ${this.directory} (${replayed} log entries replayed)`
+    );
+  }
+
+  override async close(): Promise<void> {
+    if (this.logFd === null) return;
+    this.compact();
+    fs.closeSync(this.logFd);
+    this.logFd = null;
+  }
+
+  private apply(entry: LogEntry): void {
+    switch (entry.op) {
+      case "set":
+        this.map.set(entry.element.id, entry.element);
+        break;
+      case "delete":
+        this.map.delete(entry.id);
+        break;
+      case "clear":
+        this.map.clear();
+        break;
+    }
+  }
+
+  private append(entry: LogEntry): void {
+    if (this.logFd === null) {
+      throw new Error("File storage is not loaded");
+    }
+    fs.writeSync(this.logFd, `${JSON.stringify(entry)}\n`);
+    fs.fsyncSync(this.logFd);
+    this.logEntries++;
+    if (this.logEntries >= COMPACT_THRESHOLD) {
+      this.compact();
+    }
+  }
+
+  private compact(): void {
+    const snapshot: Snapshot = {
+      savedAt: new Date().toISOString(),
+      elements: Array.from(this.map.values()),
+    };
+    const tempPath = `${this.snapshotPath}.tmp`;
+    const fd = fs.openSync(tempPath, "w");
+    try {
+      fs.writeSync(fd, JSON.stringify(snapshot));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, this.snapshotPath);
+
+    // Replaying the old log on top of the new snapshot is harmless, so a
+    // crash between the rename and the truncate loses nothing
+    if (this.logFd !== null) {
+      fs.closeSync(this.logFd);
+    }
+    this.logFd = fs.openSync(this.logPath, "w");
+    fs.fsyncSync(this.logFd);
+    this.logEntries = 0;
+  }
+}
@@ -0,0 +1,22 @@
+import { FileElementStore } from "./file-store.js";
+import { MemoryElementStore } from "./memory-store.js";
+import { ElementStore, StorageType } from "./types.js";
+
+export type { ElementStore, StorageType } from "./types.js";
+export { MemoryElementStore } from "./memory-store.js";
+export { FileElementStore } from "./file-store.js";
+
+// Select the element store from STORAGE_TYPE (memory by default) and STORAGE_PATH
+export function createElementStore(
+  type: string = process.env.STORAGE_TYPE || "memory",
+  directory: string = process.env.STORAGE_PATH || "./data"
+): ElementStore {
+  switch (type as StorageType) {
+    case "memory":
+      return new MemoryElementStore();
+    case "file":
+      return new FileElementStore(directory);
+    default:
+      throw new Error(`Unknown storage type: ${type}`);
+  }
+}
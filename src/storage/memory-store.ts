@@ -0,0 +1,47 @@
+import { ServerElement } from "../plait-types.js";
+import { ElementStore } from "./types.js";
+
+export class MemoryElementStore implements ElementStore {
+  protected readonly map = new Map<string, ServerElement>();
+
+  get size(): number {
+    return this.map.size;
+  }
+
+  get(id: string): ServerElement | undefined {
+    return this.map.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.map.has(id);
+  }
+
+  set(id: string, element: ServerElement): this {
+    this.map.set(id, element);
+    return this;
+  }
+
+  delete(id: string): boolean {
+    return this.map.delete(id);
+  }
+
+  clear(): void {
+    this.map.clear();
+  }
+
+  keys(): IterableIterator<string> {
+    return this.map.keys();
+  }
+
+  values(): IterableIterator<ServerElement> {
+    return this.map.values();
+  }
+
+  forEach(callback: (element: ServerElement, id: string) => void): void {
+    this.map.forEach((element, id) => callback(element, id));
+  }
+
+  async load(): Promise<void> {}
+
+  async close(): Promise<void> {}
+}
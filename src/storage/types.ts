@@ -0,0 +1,23 @@
+import { ServerElement } from "../plait-types.js";
+
+/**
+ * Storage behind the canvas element map. Reads and writes are synchronous like
+ * a Map, persistent implementations make every write durable before returning.
+ */
+export interface ElementStore {
+  readonly size: number;
+  get(id: string): ServerElement | undefined;
+  has(id: string): boolean;
+  set(id: string, element: ServerElement): this;
+  delete(id: string): boolean;
+  clear(): void;
+  keys(): IterableIterator<string>;
+  values(): IterableIterator<ServerElement>;
+  forEach(callback: (element: ServerElement, id: string) => void): void;
+  // Restore persisted elements, called once before the server accepts clients
+  load(): Promise<void>;
+  // Flush pending state and release file handles
+  close(): Promise<void>;
+}
+
+export type StorageType = "memory" | "file";
@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  ArrowLineMarkerType,
+  ArrowLineShapes,
+  GeometryShapes,
+  Point,
+  PointOfRectangle,
+  ServerElement,
+} from "./plait-types.js";
+import { removeRedundantPoints } from "./routing.js";
+import { renderSvg } from "./svg-export.js";
+
+function rectangle(id: string, points: [Point, Point]): ServerElement {
+  return {
+    id,
+    type: "geometry",
+    shape: GeometryShapes.rectangle,
+    points,
+  } as ServerElement;
+}
+
+function elbow(
+  source: [string, PointOfRectangle],
+  target: [string, PointOfRectangle],
+  points: Point[]
+): ServerElement {
+  return {
+    id: "arrow",
+    type: "arrow-line",
+    shape: ArrowLineShapes.elbow,
+    points,
+    texts: [],
+    source: {
+      boundId: source[0],
+      connection: source[1],
+      marker: ArrowLineMarkerType.none,
+    },
+    target: {
+      boundId: target[0],
+      connection: target[1],
+      marker: ArrowLineMarkerType.arrow,
+    },
+  } as ServerElement;
+}
+
+// The path data of the arrow-line in an exported SVG
+function arrowPath(svg: string): string {
+  const match = /<g data-id="arrow"><path d="([^"]*)"/.exec(svg);
+  assert.ok(match, "arrow-line is rendered");
+  return match[1]!;
+}
+
+test("elbow between two bottom sides of one row goes around below", () => {
+  const svg = renderSvg([
+    rectangle("a", [
+      [0, 0],
+      [100, 60],
+    ]),
+    rectangle("b", [
+      [200, 0],
+      [300, 60],
+    ]),
+    elbow(
+      ["a", [0.5, 1]],
+      ["b", [0.5, 1]],
+      [
+        [50, 60],
+        [250, 60],
+      ]
+    ),
+  ]);
+  assert.equal(arrowPath(svg), "M 50 60 L 50 80 L 250 80 L 250 60");
+});
+
+test("elbow between two left sides of one column goes around the left", () => {
+  const svg = renderSvg([
+    rectangle("a", [
+      [0, 0],
+      [100, 60],
+    ]),
+    rectangle("b", [
+      [40, 200],
+      [140, 260],
+    ]),
+    elbow(
+      ["a", [0, 0.5]],
+      ["b", [0, 0.5]],
+      [
+        [0, 30],
+        [40, 230],
+      ]
+    ),
+  ]);
+  assert.equal(arrowPath(svg), "M 0 30 L -20 30 L -20 230 L 40 230");
+});
+
+test("elbow with both ends on one point is still exported", () => {
+  const svg = renderSvg([
+    rectangle("a", [
+      [0, 0],
+      [100, 60],
+    ]),
+    elbow(
+      ["a", [0.5, 1]],
+      ["a", [0.5, 1]],
+      [
+        [50, 60],
+        [50, 60],
+      ]
+    ),
+  ]);
+  assert.equal(arrowPath(svg), "M 50 60 L 50 80 L 50 60");
+});
+
+test("removeRedundantPoints keeps turns back and both ends", () => {
+  assert.deepEqual(
+    removeRedundantPoints([
+      [0, 0],
+      [0, 10],
+      [0, 0],
+    ]),
+    [
+      [0, 0],
+      [0, 10],
+      [0, 0],
+    ]
+  );
+  assert.deepEqual(
+    removeRedundantPoints([
+      [0, 0],
+      [0, 0],
+    ]),
+    [
+      [0, 0],
+      [0, 0],
+    ]
+  );
+  assert.deepEqual(
+    removeRedundantPoints([
+      [0, 0],
+      [0, 10],
+      [0, 10],
+      [0, 20],
+      [30, 20],
+    ]),
+    [
+      [0, 0],
+      [0, 20],
+      [30, 20],
+    ]
+  );
+});
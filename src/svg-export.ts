@@ -0,0 +1,662 @@
+import {
+  ArrowLineHandle,
+  ArrowLineMarkerType,
+  ArrowLineShapes,
+  GeometryShapes,
+  Point,
+  PointOfRectangle,
+  ServerArrowLineElement,
+  ServerElement,
+  ServerGeometryElement,
+  StrokeStyle,
+  TextAlign,
+} from "./plait-types.js";
+import {
+  Bounds,
+  getElementBounds,
+  plainText,
+  queryElements,
+  unionBounds,
+} from "./query.js";
+import { removeRedundantPoints, STUB_LENGTH } from "./routing.js";
+import {
+  FONT_FAMILY,
+  FONT_SIZE,
+  layoutText,
+  LINE_HEIGHT,
+  TEXT_PADDING,
+  textBox,
+} from "./text-metrics.js";
+
+export interface SvgExportOptions {
+  // Only export elements intersecting this area, and crop to it
+  region?: [Point, Point];
+  // Only export these elements
+  ids?: string[];
+  padding?: number;
+  // Any SVG colour, "transparent" leaves the background empty
+  background?: string;
+}
+
+// Plait's default draw style
+const DEFAULT_STROKE_COLOR = "#333333";
+const DEFAULT_STROKE_WIDTH = 2;
+const DEFAULT_PADDING = 20;
+const DEFAULT_BACKGROUND = "#ffffff";
+const CURVE_SAMPLES = 24;
+
+interface Vector {
+  x: number;
+  y: number;
+}
+
+interface Route {
+  // SVG path data of the line
+  path: string;
+  // The line as a polyline, used for labels and bounds
+  polyline: Point[];
+  // Directions the line enters its two ends with, for the markers
+  startDirection: Vector;
+  endDirection: Vector;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function format(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function formatPoint([x, y]: Point): string {
+  return `${format(x)} ${format(y)}`;
+}
+
+function normalize(x: number, y: number): Vector {
+  const length = Math.hypot(x, y);
+  return length === 0 ? { x: 1, y: 0 } : { x: x / length, y: y / length };
+}
+
+function direction(from: Point, to: Point): Vector {
+  return normalize(to[0] - from[0], to[1] - from[1]);
+}
+
+function rectOf(element: ServerGeometryElement): Bounds {
+  return getElementBounds(element)!;
+}
+
+function strokeAttributes(element: ServerElement): string {
+  const width = element.strokeWidth ?? DEFAULT_STROKE_WIDTH;
+  const dash =
+    element.strokeStyle === StrokeStyle.dashed
+      ? ` stroke-dasharray="${format(width * 4)} ${format(width * 4)}"`
+      : element.strokeStyle === StrokeStyle.dotted
+        ? ` stroke-dasharray="${format(width)} ${format(width * 2)}" stroke-linecap="round"`
+        : "";
+  return `stroke="${escapeXml(
+    element.strokeColor || DEFAULT_STROKE_COLOR
+  )}" stroke-width="${format(width)}"${dash}`;
+}
+
+function renderTextLines(
+  lines: string[],
+  x: number,
+  centerY: number,
+  anchor: "start" | "middle" | "end",
+  color: string
+): string {
+  const top = centerY - ((lines.length - 1) * LINE_HEIGHT) / 2;
+  const spans = lines
+    .map(
+      (line, index) =>
+        `<tspan x="${format(x)}" y="${format(
+          top + index * LINE_HEIGHT
+        )}">${escapeXml(line)}</tspan>`
+    )
+    .join("");
+  return `<text font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}" fill="${escapeXml(
+    color
+  )}" text-anchor="${anchor}" dominant-baseline="central">${spans}</text>`;
+}
+
+function renderGeometry(element: ServerGeometryElement): string {
+  const rect = rectOf(element);
+  const stroke = strokeAttributes(element);
+  const fill = escapeXml(element.fill || "none");
+  const parts: string[] = [];
+
+  switch (element.shape) {
+    case GeometryShapes.rectangle:
+      parts.push(
+        `<rect x="${format(rect.x)}" y="${format(rect.y)}" width="${format(
+          rect.width
+        )}" height="${format(rect.height)}" fill="${fill}" ${stroke}/>`
+      );
+      break;
+    case GeometryShapes.ellipse:
+      parts.push(
+        `<ellipse cx="${format(rect.x + rect.width / 2)}" cy="${format(
+          rect.y + rect.height / 2
+        )}" rx="${format(rect.width / 2)}" ry="${format(
+          rect.height / 2
+        )}" fill="${fill}" ${stroke}/>`
+      );
+      break;
+    case GeometryShapes.diamond: {
+      const corners: Point[] = [
+        [rect.x + rect.width / 2, rect.y],
+        [rect.x + rect.width, rect.y + rect.height / 2],
+        [rect.x + rect.width / 2, rect.y + rect.height],
+        [rect.x, rect.y + rect.height / 2],
+      ];
+      parts.push(
+        `<polygon points="${corners
+          .map((corner) => corner.map(format).join(","))
+          .join(" ")}" fill="${fill}" ${stroke}/>`
+      );
+      break;
+    }
+    // Text elements have no outline
+    case GeometryShapes.text:
+      break;
+  }
+
+  const text = plainText(element.text);
+  if (text) {
+    const align = element.textAlign || TextAlign.center;
+    const x =
+      align === TextAlign.left
+        ? rect.x + TEXT_PADDING
+        : align === TextAlign.right
+          ? rect.x + rect.width - TEXT_PADDING
+          : rect.x + rect.width / 2;
+    // Wrapped inside the shape like the canvas does
+    const { lines } = layoutText(text, textBox(element.shape, rect).width);
+    parts.push(
+      renderTextLines(
+        lines,
+        x,
+        rect.y + rect.height / 2,
+        align === TextAlign.left
+          ? "start"
+          : align === TextAlign.right
+            ? "end"
+            : "middle",
+        element.strokeColor || DEFAULT_STROKE_COLOR
+      )
+    );
+  }
+
+  return `<g data-id="${escapeXml(element.id)}">${parts.join("")}</g>`;
+}
+
+// The outward normal of a connection point, e.g. [1, 0.5] points right
+function connectionNormal(connection: PointOfRectangle): Vector | null {
+  const x = connection[0] === 0 ? -1 : connection[0] === 1 ? 1 : 0;
+  const y = connection[1] === 0 ? -1 : connection[1] === 1 ? 1 : 0;
+  return x === 0 && y === 0 ? null : normalize(x, y);
+}
+
+interface ResolvedHandle {
+  point: Point;
+  normal: Vector | null;
+}
+
+// A bound end sits on its connection point of the bound geometry, like the
+// canvas draws it, even when the stored points are stale
+function resolveHandle(
+  handle: ArrowLineHandle | undefined,
+  stored: Point,
+  elements: Map<string, ServerElement>
+): ResolvedHandle {
+  const bound = handle?.boundId ? elements.get(handle.boundId) : undefined;
+  if (!bound || bound.type !== "geometry" || !handle?.connection) {
+    return { point: stored, normal: null };
+  }
+  const rect = rectOf(bound as ServerGeometryElement);
+  return {
+    point: [
+      rect.x + rect.width * handle.connection[0],
+      rect.y + rect.height * handle.connection[1],
+    ],
+    normal: connectionNormal(handle.connection),
+  };
+}
+
+function elbowPoints(
+  start: ResolvedHandle,
+  end: ResolvedHandle,
+  middle: Point[]
+): Point[] {
+  const [sx, sy] = start.point;
+  const [ex, ey] = end.point;
+  if (middle.length > 0) {
+    // Keep the stored bends, only straighten the segments between them
+    const points = [start.point, ...middle, end.point];
+    const route: Point[] = [points[0]!];
+    for (let index = 1; index < points.length; index++) {
+      const [px, py] = route[route.length - 1]!;
+      const [x, y] = points[index]!;
+      if (px !== x && py !== y) route.push([x, py]);
+      route.push([x, y]);
+    }
+    return removeRedundantPoints(route);
+  }
+
+  const startVertical = start.normal
+    ? Math.abs(start.normal.y) > Math.abs(start.normal.x)
+    : Math.abs(ey - sy) > Math.abs(ex - sx);
+  const endVertical = end.normal
+    ? Math.abs(end.normal.y) > Math.abs(end.normal.x)
+    : startVertical;
+
+  // Ends facing the same way step out past both shapes and turn back, a U
+  const sameWay = (axis: "x" | "y") =>
+    !!start.normal &&
+    !!end.normal &&
+    Math.sign(start.normal[axis]) === Math.sign(end.normal[axis]);
+  const stepOut = (from: number, to: number, outward: number) =>
+    outward > 0
+      ? Math.max(from, to) + STUB_LENGTH
+      : Math.min(from, to) - STUB_LENGTH;
+
+  let route: Point[];
+  if (startVertical && endVertical) {
+    const y = sameWay("y") ? stepOut(sy, ey, start.normal!.y) : (sy + ey) / 2;
+    route = [start.point, [sx, y], [ex, y], end.point];
+  } else if (!startVertical && !endVertical) {
+    const x = sameWay("x") ? stepOut(sx, ex, start.normal!.x) : (sx + ex) / 2;
+    route = [start.point, [x, sy], [x, ey], end.point];
+  } else if (startVertical) {
+    route = [start.point, [sx, ey], end.point];
+  } else {
+    route = [start.point, [ex, sy], end.point];
+  }
+  return removeRedundantPoints(route);
+}
+
+function cubicPoint(
+  p0: Point,
+  p1: Point,
+  p2: Point,
+  p3: Point,
+  t: number
+): Point {
+  const u = 1 - t;
+  return [
+    u * u * u * p0[0] +
+      3 * u * u * t * p1[0] +
+      3 * u * t * t * p2[0] +
+      t * t * t * p3[0],
+    u * u * u * p0[1] +
+      3 * u * u * t * p1[1] +
+      3 * u * t * t * p2[1] +
+      t * t * t * p3[1],
+  ];
+}
+
+function curveRoute(
+  start: ResolvedHandle,
+  end: ResolvedHandle,
+  middle: Point[]
+): Route {
+  const points = [start.point, ...middle, end.point];
+  const segments: [Point, Point, Point, Point][] = [];
+
+  if (points.length === 2) {
+    // Leave and enter the bound shapes perpendicular to their edges
+    const reach =
+      Math.hypot(end.point[0] - start.point[0], end.point[1] - start.point[1]) /
+      2;
+    const along = direction(start.point, end.point);
+    const startNormal = start.normal || along;
+    const endNormal = end.normal || { x: -along.x, y: -along.y };
+    segments.push([
+      start.point,
+      [
+        start.point[0] + startNormal.x * reach,
+        start.point[1] + startNormal.y * reach,
+      ],
+      [end.point[0] + endNormal.x * reach, end.point[1] + endNormal.y * reach],
+      end.point,
+    ]);
+  } else {
+    // Catmull-Rom spline through the stored points
+    for (let index = 0; index < points.length - 1; index++) {
+      const p0 = points[index - 1] || points[index]!;
+      const p1 = points[index]!;
+      const p2 = points[index + 1]!;
+      const p3 = points[index + 2] || p2;
+      segments.push([
+        p1,
+        [p1[0] + (p2[0] - p0[0]) / 6, p1[1] + (p2[1] - p0[1]) / 6],
+        [p2[0] - (p3[0] - p1[0]) / 6, p2[1] - (p3[1] - p1[1]) / 6],
+        p2,
+      ]);
+    }
+  }
+
+  const polyline: Point[] = [start.point];
+  segments.forEach((segment) => {
+    for (let step = 1; step <= CURVE_SAMPLES; step++) {
+      polyline.push(cubicPoint(...segment, step / CURVE_SAMPLES));
+    }
+  });
+  const first = segments[0]!;
+  const last = segments[segments.length - 1]!;
+  return {
+    path: `M ${formatPoint(start.point)} ${segments
+      .map(
+        ([, c1, c2, to]) =>
+          `C ${formatPoint(c1)} ${formatPoint(c2)} ${formatPoint(to)}`
+      )
+      .join(" ")}`,
+    polyline,
+    startDirection: direction(first[1], first[0]),
+    endDirection: direction(last[2], last[3]),
+  };
+}
+
+// The direction a polyline arrives at its first point with, from the first
+// point apart from it
+function tipDirection(points: Point[]): Vector {
+  const [tip] = points;
+  const from = points.find(
+    (point) => point[0] !== tip![0] || point[1] !== tip![1]
+  );
+  return from ? direction(from, tip!) : { x: 1, y: 0 };
+}
+
+function polylineRoute(points: Point[]): Route | null {
+  if (points.length < 2) return null;
+  return {
+    path: `M ${points.map(formatPoint).join(" L ")}`,
+    polyline: points,
+    startDirection: tipDirection(points),
+    endDirection: tipDirection([...points].reverse()),
+  };
+}
+
+function routeArrowLine(
+  element: ServerArrowLineElement,
+  elements: Map<string, ServerElement>
+): Route | null {
+  const stored = element.points;
+  if (!Array.isArray(stored) || stored.length < 2) return null;
+  const start = resolveHandle(element.source, stored[0]!, elements);
+  const end = resolveHandle(
+    element.target,
+    stored[stored.length - 1]!,
+    elements
+  );
+  const middle = stored.slice(1, -1);
+
+  switch (element.shape) {
+    case ArrowLineShapes.curve:
+      return curveRoute(start, end, middle);
+    case ArrowLineShapes.elbow:
+      return polylineRoute(elbowPoints(start, end, middle));
+    default:
+      return polylineRoute([start.point, ...middle, end.point]);
+  }
+}
+
+// The point at `position` (0-1) of the way along a polyline
+function pointAlong(polyline: Point[], position: number): Point {
+  const lengths = polyline
+    .slice(1)
+    .map((point, index) =>
+      Math.hypot(point[0] - polyline[index]![0], point[1] - polyline[index]![1])
+    );
+  let remaining =
+    lengths.reduce((sum, length) => sum + length, 0) *
+    Math.min(1, Math.max(0, position));
+  for (let index = 0; index < lengths.length; index++) {
+    const length = lengths[index]!;
+    if (remaining <= length && length > 0) {
+      const from = polyline[index]!;
+      const to = polyline[index + 1]!;
+      const t = remaining / length;
+      return [from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t];
+    }
+    remaining -= length;
+  }
+  return polyline[polyline.length - 1]!;
+}
+
+// A marker drawn at `tip`, pointing along `forward`
+function renderMarker(
+  marker: ArrowLineMarkerType | undefined,
+  tip: Point,
+  forward: Vector,
+  element: ServerElement,
+  background: string
+): string {
+  if (!marker || marker === ArrowLineMarkerType.none) return "";
+  const color = escapeXml(element.strokeColor || DEFAULT_STROKE_COLOR);
+  const width = element.strokeWidth ?? DEFAULT_STROKE_WIDTH;
+  const size = 8 + width * 2;
+  const side: Vector = { x: -forward.y, y: forward.x };
+  const at = (back: number, across: number): string =>
+    formatPoint([
+      tip[0] - forward.x * back + side.x * across,
+      tip[1] - forward.y * back + side.y * across,
+    ]);
+  const line = `fill="none" stroke="${color}" stroke-width="${format(
+    width
+  )}" stroke-linecap="round" stroke-linejoin="round"`;
+
+  switch (marker) {
+    case ArrowLineMarkerType.arrow:
+      return `<path d="M ${at(size, size / 2)} L ${at(0, 0)} L ${at(
+        size,
+        -size / 2
+      )}" ${line}/>`;
+    case ArrowLineMarkerType.solidTriangle:
+      return `<path d="M ${at(0, 0)} L ${at(size, size / 2)} L ${at(
+        size,
+        -size / 2
+      )} Z" fill="${color}" stroke="${color}" stroke-width="${format(
+        width
+      )}" stroke-linejoin="round"/>`;
+    case ArrowLineMarkerType.openTriangle:
+    case ArrowLineMarkerType.hollowTriangle:
+      return `<path d="M ${at(0, 0)} L ${at(size, size / 2)} L ${at(
+        size,
+        -size / 2
+      )} Z" fill="${escapeXml(background)}" stroke="${color}" stroke-width="${format(
+        width
+      )}" stroke-linejoin="round"/>`;
+    case ArrowLineMarkerType.sharpArrow:
+      return `<path d="M ${at(0, 0)} L ${at(size, size / 2)} L ${at(
+        size * 0.7,
+        0
+      )} L ${at(size, -size / 2)} Z" fill="${color}" stroke="${color}" stroke-width="${format(
+        width / 2
+      )}" stroke-linejoin="round"/>`;
+    case ArrowLineMarkerType.oneSideUp:
+      return `<path d="M ${at(size, size / 2)} L ${at(0, 0)}" ${line}/>`;
+    case ArrowLineMarkerType.oneSideDown:
+      return `<path d="M ${at(size, -size / 2)} L ${at(0, 0)}" ${line}/>`;
+    case ArrowLineMarkerType.singleSlash:
+      return `<path d="M ${at(size * 0.75, size / 2)} L ${at(
+        size * 0.25,
+        -size / 2
+      )}" ${line}/>`;
+    default:
+      return "";
+  }
+}
+
+function renderArrowLine(
+  element: ServerArrowLineElement,
+  route: Route,
+  background: string
+): string {
+  const parts = [
+    `<path d="${route.path}" fill="none" ${strokeAttributes(
+      element
+    )} stroke-linejoin="round"/>`,
+    renderMarker(
+      element.source?.marker,
+      route.polyline[0]!,
+      route.startDirection,
+      element,
+      background
+    ),
+    renderMarker(
+      element.target?.marker,
+      route.polyline[route.polyline.length - 1]!,
+      route.endDirection,
+      element,
+      background
+    ),
+  ];
+
+  (element.texts || []).forEach((label) => {
+    const text = plainText(label.text);
+    if (!text) return;
+    const { lines, width: textWidth, height } = layoutText(text);
+    const [x, y] = pointAlong(route.polyline, label.position);
+    const width = textWidth + TEXT_PADDING;
+    // Labels sit on the line, the background keeps them readable
+    if (background !== "transparent") {
+      parts.push(
+        `<rect x="${format(x - width / 2)}" y="${format(
+          y - height / 2
+        )}" width="${format(width)}" height="${format(
+          height
+        )}" fill="${escapeXml(background)}"/>`
+      );
+    }
+    parts.push(
+      renderTextLines(
+        lines,
+        x,
+        y,
+        "middle",
+        element.strokeColor || DEFAULT_STROKE_COLOR
+      )
+    );
+  });
+
+  return `<g data-id="${escapeXml(element.id)}">${parts.join("")}</g>`;
+}
+
+function renderFreehand(element: ServerElement & { points: Point[] }): string {
+  const points = element.points;
+  if (!Array.isArray(points) || points.length < 2) return "";
+  return `<g data-id="${escapeXml(element.id)}"><path d="M ${points
+    .map(formatPoint)
+    .join(" L ")}" fill="none" ${strokeAttributes(
+    element
+  )} stroke-linecap="round" stroke-linejoin="round"/></g>`;
+}
+
+/**
+ * Render stored elements into a standalone SVG document. Geometries, arrow
+ * lines (straight, curve and elbow, with markers and labels) and freehand
+ * strokes are drawn; mind maps are laid out by the browser and are skipped.
+ */
+export function renderSvg(
+  allElements: ServerElement[],
+  options: SvgExportOptions = {}
+): string {
+  const padding = options.padding ?? DEFAULT_PADDING;
+  const background = options.background || DEFAULT_BACKGROUND;
+  const byId = new Map(allElements.map((element) => [element.id, element]));
+
+  let elements = allElements;
+  if (options.ids) {
+    const ids = new Set(options.ids);
+    elements = elements.filter((element) => ids.has(element.id));
+  }
+  if (options.region) {
+    elements = queryElements(elements, { within: options.region });
+  }
+
+  const shapes: string[] = [];
+  const bounds: Bounds[] = [];
+  let skipped = 0;
+
+  // Geometries first so that lines and their labels are drawn on top
+  const order = { geometry: 0, freehand: 1, "arrow-line": 2, mind: 3 };
+  [...elements]
+    .sort((a, b) => order[a.type] - order[b.type])
+    .forEach((element) => {
+      switch (element.type) {
+        case "geometry":
+          shapes.push(renderGeometry(element as ServerGeometryElement));
+          bounds.push(rectOf(element as ServerGeometryElement));
+          break;
+        case "arrow-line": {
+          const route = routeArrowLine(element as ServerArrowLineElement, byId);
+          if (!route) break;
+          shapes.push(
+            renderArrowLine(
+              element as ServerArrowLineElement,
+              route,
+              background
+            )
+          );
+          bounds.push(
+            getElementBounds({
+              ...element,
+              points: route.polyline,
+            } as ServerElement)!
+          );
+          break;
+        }
+        case "freehand": {
+          const freehand = element as ServerElement & { points: Point[] };
+          shapes.push(renderFreehand(freehand));
+          const rect = getElementBounds(freehand);
+          if (rect) bounds.push(rect);
+          break;
+        }
+        default:
+          skipped++;
+      }
+    });
+
+  const [[x1, y1], [x2, y2]] = options.region || [
+    [0, 0],
+    [0, 0],
+  ];
+  const area = options.region
+    ? {
+        x: Math.min(x1, x2),
+        y: Math.min(y1, y2),
+        width: Math.abs(x2 - x1),
+        height: Math.abs(y2 - y1),
+      }
+    : unionBounds(bounds) || { x: 0, y: 0, width: 0, height: 0 };
+  const x = area.x - padding;
+  const y = area.y - padding;
+  const width = area.width + padding * 2;
+  const height = area.height + padding * 2;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${format(
+      width
+    )}" height="${format(height)}" viewBox="${format(x)} ${format(
+      y
+    )} ${format(width)} ${format(height)}">`,
+    ...(skipped > 0
+      ? [`<!-- ${skipped} mind map element(s) not rendered -->`]
+      : []),
+    ...(background !== "transparent"
+      ? [
+          `<rect x="${format(x)}" y="${format(y)}" width="${format(
+            width
+          )}" height="${format(height)}" fill="${escapeXml(background)}"/>`,
+        ]
+      : []),
+    ...shapes,
+    "</svg>",
+  ].join("\n");
+}
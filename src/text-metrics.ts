@@ -0,0 +1,239 @@
+import {
+  GeometryShapes,
+  Point,
+  ServerElement,
+  ServerGeometryElement,
+} from "./plait-types.js";
+import { getElementBounds, plainText } from "./query.js";
+
+// Drawnix draws text at 14px with a 20px line height, in the system UI font
+// for Latin text and PingFang SC or Microsoft YaHei for Chinese
+export const FONT_FAMILY =
+  "-apple-system, 'PingFang SC', 'Microsoft YaHei', 'Segoe UI', sans-serif";
+export const FONT_SIZE = 14;
+export const LINE_HEIGHT = 20;
+// Space kept between the outline of a shape and its text
+export const TEXT_PADDING = 8;
+// Shapes sized to fit their text wrap it to stay this wide
+const MAX_SHAPE_WIDTH = 280;
+
+// Advance widths of the printable ASCII characters from space to ~, in
+// thousandths of the font size. These are the Helvetica / Arial metrics,
+// which San Francisco, Segoe UI and the Latin glyphs of PingFang SC and
+// Microsoft YaHei follow closely.
+// prettier-ignore
+const ASCII_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// Other Latin, Greek, Cyrillic and the like
+const DEFAULT_WIDTH = 600;
+// Han, kana, Hangul and full-width forms take a whole em
+const FULL_WIDTH = 1000;
+const EMOJI_WIDTH = 1200;
+
+// Characters that take a whole em and can break a line before and after them
+const FULL_WIDTH_CHARS =
+  /[\u1100-\u11ff\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6\u{20000}-\u{3ffff}]/u;
+const EMOJI = /\p{Extended_Pictographic}/u;
+// CJK punctuation that can not start a line, it stays with the character
+// before it
+const NO_BREAK_BEFORE = /[、。，．：；？！）］｝〉》」』】〕”’〜ー・…]/;
+
+export interface TextSize {
+  width: number;
+  height: number;
+}
+
+export interface TextLayout extends TextSize {
+  lines: string[];
+}
+
+function charWidth(char: string): number {
+  const code = char.codePointAt(0)!;
+  const units =
+    code >= 32 && code <= 126
+      ? ASCII_WIDTHS[code - 32]!
+      : FULL_WIDTH_CHARS.test(char)
+        ? FULL_WIDTH
+        : EMOJI.test(char)
+          ? EMOJI_WIDTH
+          : DEFAULT_WIDTH;
+  return (units * FONT_SIZE) / 1000;
+}
+
+// Width of one line of text as the canvas draws it
+export function lineWidth(line: string): number {
+  return Array.from(line).reduce((width, char) => width + charWidth(char), 0);
+}
+
+// Split a paragraph where lines may break: after spaces, and around
+// full-width characters
+function breakUnits(paragraph: string): string[] {
+  const units: string[] = [];
+  let current = "";
+  Array.from(paragraph).forEach((char) => {
+    if (NO_BREAK_BEFORE.test(char)) {
+      current += char;
+    } else if (FULL_WIDTH_CHARS.test(char)) {
+      if (current) units.push(current);
+      current = char;
+    } else {
+      const previous = Array.from(current).pop();
+      if (
+        previous &&
+        (previous === " " ||
+          FULL_WIDTH_CHARS.test(previous) ||
+          NO_BREAK_BEFORE.test(previous))
+      ) {
+        units.push(current);
+        current = "";
+      }
+      current += char;
+    }
+  });
+  if (current) units.push(current);
+  return units;
+}
+
+// Wrap one paragraph greedily; a word longer than a line is broken between
+// characters, like the canvas does
+function wrapParagraph(paragraph: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  const push = () => {
+    lines.push(line.trimEnd());
+    line = "";
+  };
+  breakUnits(paragraph).forEach((unit) => {
+    if (lineWidth(line + unit.trimEnd()) <= maxWidth) {
+      line += unit;
+      return;
+    }
+    if (line) push();
+    if (lineWidth(unit.trimEnd()) <= maxWidth) {
+      line = unit;
+      return;
+    }
+    Array.from(unit).forEach((char) => {
+      if (line && lineWidth(line + char) > maxWidth) push();
+      line += char;
+    });
+  });
+  if (line || lines.length === 0) push();
+  return lines;
+}
+
+/**
+ * Lay out text as the canvas draws it, wrapped at `maxWidth`. The size is
+ * that of the widest line and all lines; it is only wider than `maxWidth`
+ * when a single character is.
+ */
+export function layoutText(text: string, maxWidth = Infinity): TextLayout {
+  const lines = text
+    .split("\n")
+    .flatMap((paragraph) => wrapParagraph(paragraph, maxWidth));
+  return {
+    lines,
+    width: Math.max(...lines.map(lineWidth)),
+    height: lines.length * LINE_HEIGHT,
+  };
+}
+
+// How much of a shape's size its text can use; the text of an ellipse or a
+// diamond stays inside the largest rectangle that fits in it
+const TEXT_AREA: Record<GeometryShapes, { scale: number; padding: number }> = {
+  [GeometryShapes.rectangle]: { scale: 1, padding: TEXT_PADDING },
+  [GeometryShapes.ellipse]: { scale: Math.SQRT1_2, padding: TEXT_PADDING },
+  [GeometryShapes.diamond]: { scale: 0.5, padding: TEXT_PADDING },
+  [GeometryShapes.text]: { scale: 1, padding: 0 },
+};
+
+// The area a shape of this size has for its text
+export function textBox(shape: GeometryShapes, size: TextSize): TextSize {
+  const { scale, padding } = TEXT_AREA[shape] ?? TEXT_AREA.rectangle;
+  return {
+    width: Math.max(0, size.width * scale - padding * 2),
+    height: Math.max(0, size.height * scale - padding * 2),
+  };
+}
+
+// The size a shape needs for a text area of this size
+function shapeSize(shape: GeometryShapes, text: TextSize): TextSize {
+  const { scale, padding } = TEXT_AREA[shape] ?? TEXT_AREA.rectangle;
+  return {
+    width: Math.ceil((text.width + padding * 2) / scale),
+    height: Math.ceil((text.height + padding * 2) / scale),
+  };
+}
+
+// The size of a shape that fits the text, wrapped to keep the shape at most
+// `maxWidth` wide where the words allow
+export function shapeSizeForText(
+  text: string,
+  shape: GeometryShapes,
+  maxWidth = MAX_SHAPE_WIDTH
+): TextSize {
+  const { width } = textBox(shape, { width: maxWidth, height: 0 });
+  return shapeSize(shape, layoutText(text, width));
+}
+
+export interface TextFit {
+  element: ServerElement;
+  // The size the shape needs when its text overflows and it was left as is
+  needed?: TextSize;
+}
+
+/**
+ * Fit a geometry to its text. Text elements with autoSize take the size of
+ * their text, other autoSize shapes grow until their wrapped text fits. The
+ * size a shape without autoSize would need is returned when its text
+ * overflows. Shapes only grow: wider up to MAX_SHAPE_WIDTH first, then
+ * taller.
+ */
+export function fitText(element: ServerElement): TextFit {
+  const geometry = element as ServerGeometryElement;
+  const text = plainText(geometry.text);
+  const bounds = getElementBounds(element);
+  if (element.type !== "geometry" || !text || !bounds) return { element };
+
+  const resize = (size: TextSize): ServerElement => {
+    const points: [Point, Point] = [
+      [bounds.x, bounds.y],
+      [bounds.x + size.width, bounds.y + size.height],
+    ];
+    return { ...geometry, points } as ServerElement;
+  };
+  if (geometry.shape === GeometryShapes.text && geometry.autoSize) {
+    const layout = layoutText(text);
+    return {
+      element: resize({
+        width: Math.ceil(layout.width),
+        height: Math.ceil(layout.height),
+      }),
+    };
+  }
+
+  const box = textBox(geometry.shape, bounds);
+  const layout = layoutText(text, box.width);
+  if (layout.width <= box.width && layout.height <= box.height) {
+    return { element };
+  }
+  const width = Math.max(
+    Math.ceil(bounds.width),
+    shapeSizeForText(text, geometry.shape).width
+  );
+  const required = shapeSize(
+    geometry.shape,
+    layoutText(text, textBox(geometry.shape, { width, height: 0 }).width)
+  );
+  const needed = {
+    width: Math.max(width, required.width),
+    height: Math.max(Math.ceil(bounds.height), required.height),
+  };
+  return geometry.autoSize ? { element: resize(needed) } : { element, needed };
+}
@@ -0,0 +1,386 @@
+import { z } from "zod";
+import {
+  ArrowLineMarkerType,
+  ArrowLineShapes,
+  FreehandShapes,
+  GeometryShapes,
+  MindElementShape,
+  MindLayoutType,
+  MindTopic,
+  StrokeStyle,
+  TextAlign,
+} from "./plait-types.js";
+import {
+  arrowLineElementSchema,
+  arrowLineSourceSchema,
+  arrowLineTargetSchema,
+  arrowLineTextSchema,
+  colorSchema,
+  elementSchema,
+  freehandElementSchema,
+  geometryElementSchema,
+  historyOptionsSchema,
+  pointSchema,
+  snapshotOptionsSchema,
+  strokeWidthSchema,
+  svgExportOptionsSchema,
+  textSchema,
+} from "./schemas.js";
+
+/**
+ * Arguments of every MCP tool. The tool input schemas advertised to clients
+ * are generated from these, and tool calls are parsed with them.
+ */
+
+export const createGeometryElementArguments = geometryElementSchema;
+
+export const createArrowLineElementArguments = arrowLineElementSchema;
+
+export const createFreehandElementArguments = freehandElementSchema;
+
+const mindTopicSchema: z.ZodType<MindTopic> = z.lazy(() =>
+  z.object({
+    topic: z.string(),
+    children: z.array(mindTopicSchema).optional(),
+  })
+);
+
+export const createMindmapArguments = z
+  .object({
+    id: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "The unique identifier of the mind map, 5 characters in ABCDEFGHJKMNPQRSTWXYZabcdefhijkmnprstwxyz,"
+      ),
+    root: mindTopicSchema
+      .optional()
+      .describe(
+        'The central topic and its children, such as {"topic": "Plan", "children": [{"topic": "Goals", "children": []}]}'
+      ),
+    markdown: z
+      .string()
+      .optional()
+      .describe(
+        "A Markdown outline, the single top-level item is the central topic"
+      ),
+    title: z
+      .string()
+      .optional()
+      .describe(
+        "The central topic when the Markdown outline has several top-level items"
+      ),
+    point: pointSchema
+      .optional()
+      .describe(
+        "The top left position of the central topic, such as [100, 100]"
+      ),
+    layout: z
+      .nativeEnum(MindLayoutType)
+      .optional()
+      .describe("The layout direction of the mind map, default right"),
+    shape: z.nativeEnum(MindElementShape).optional(),
+  })
+  .refine((args) => args.root || args.markdown, {
+    message: "root or markdown is required",
+    path: ["root"],
+  });
+
+export const layoutDiagramArguments = z.object({
+  nodes: z
+    .array(
+      z.object({
+        id: z
+          .string()
+          .min(1)
+          .describe(
+            "The unique identifier of the node element, 5 characters in ABCDEFGHJKMNPQRSTWXYZabcdefhijkmnprstwxyz,"
+          ),
+        text: z.string(),
+        shape: z.nativeEnum(GeometryShapes).optional(),
+        width: z.number().positive().optional(),
+        height: z.number().positive().optional(),
+        fill: colorSchema.optional(),
+        strokeColor: colorSchema.optional(),
+      })
+    )
+    .min(1, "must contain at least one node"),
+  edges: z
+    .array(
+      z.object({
+        from: z.string().describe("The id of the source node"),
+        to: z.string().describe("The id of the target node"),
+        label: z.string().optional(),
+        shape: z.nativeEnum(ArrowLineShapes).optional(),
+        marker: z.nativeEnum(ArrowLineMarkerType).optional(),
+      })
+    )
+    .optional(),
+  direction: z
+    .enum(["TB", "LR"])
+    .optional()
+    .describe("Top to bottom or left to right, default TB"),
+  algorithm: z
+    .enum(["layered", "tree", "grid"])
+    .optional()
+    .describe("Default layered"),
+  origin: pointSchema
+    .optional()
+    .describe(
+      "The top left corner of the diagram, choose a free area of the canvas, default [100, 100]"
+    ),
+  nodeGap: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe("The gap between nodes of the same layer, default 80"),
+  layerGap: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe("The gap between layers, default 160"),
+  columns: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("The number of columns of the grid algorithm"),
+});
+
+export const connectElementsArguments = z.object({
+  fromId: z
+    .string()
+    .min(1)
+    .describe("The id of the geometry element the arrow line starts at"),
+  toId: z
+    .string()
+    .min(1)
+    .describe("The id of the geometry element the arrow line points to"),
+  label: z.string().optional().describe("Text shown in the middle of the line"),
+  marker: z
+    .nativeEnum(ArrowLineMarkerType)
+    .optional()
+    .describe("The marker at the toId end, default arrow"),
+  shape: z.nativeEnum(ArrowLineShapes).optional().describe("Default elbow"),
+  id: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "The unique identifier of the arrow line, 5 characters in ABCDEFGHJKMNPQRSTWXYZabcdefhijkmnprstwxyz,"
+    ),
+});
+
+export const createElementsArguments = z.object({
+  elements: z.array(elementSchema).min(1, "must contain at least one element"),
+});
+
+const versionSchema = z.number().int().nonnegative();
+
+export const updateElementArguments = z
+  .object({
+    id: z.string().min(1).describe("The id of the element to update"),
+    points: z.array(pointSchema).optional(),
+    shape: z
+      .enum([
+        ...Object.values(GeometryShapes),
+        ...Object.values(ArrowLineShapes),
+        ...Object.values(FreehandShapes),
+      ] as [string, ...string[]])
+      .optional(),
+    text: textSchema.optional(),
+    textAlign: z.nativeEnum(TextAlign).optional(),
+    texts: z.array(arrowLineTextSchema).optional(),
+    fill: colorSchema.optional(),
+    strokeColor: colorSchema.optional(),
+    strokeWidth: strokeWidthSchema.optional(),
+    strokeStyle: z.nativeEnum(StrokeStyle).optional(),
+    autoSize: z.boolean().optional(),
+    source: arrowLineSourceSchema
+      .optional()
+      .describe("The new start handle of an arrow-line element"),
+    target: arrowLineTargetSchema
+      .optional()
+      .describe("The new end handle of an arrow-line element"),
+    expectedVersion: versionSchema
+      .optional()
+      .describe(
+        "The version of the element the update is based on, as read with get_element. When someone changed the element since, the update is rejected with its current state"
+      ),
+  })
+  .passthrough()
+  .refine(({ id: _id, ...changes }) => Object.keys(changes).length > 0, {
+    message: "no changes provided",
+  });
+
+export const deleteElementsArguments = z
+  .object({
+    ids: z
+      .array(z.string())
+      .optional()
+      .describe("The ids of the elements to delete"),
+    cascade: z
+      .boolean()
+      .optional()
+      .describe(
+        "Also delete the arrow lines bound to the deleted elements, default false"
+      ),
+    all: z.boolean().optional().describe("Delete every element on the canvas"),
+    expectedVersions: z
+      .record(versionSchema)
+      .optional()
+      .describe(
+        "The versions the elements had when they were read, by id. When one of them changed since, nothing is deleted"
+      ),
+  })
+  .refine((args) => args.all || (args.ids && args.ids.length > 0), {
+    message: "ids is required unless all is true",
+    path: ["ids"],
+  });
+
+const summaryLimitSchema = z
+  .number()
+  .int()
+  .positive()
+  .optional()
+  .describe("The maximum number of elements to list, default 100");
+
+export const getCanvasArguments = z.object({
+  limit: summaryLimitSchema,
+});
+
+export const getElementArguments = z.object({
+  id: z.string().min(1).describe("The id of the element"),
+});
+
+export const queryElementsArguments = z.object({
+  type: z.enum(["geometry", "arrow-line", "freehand", "mind"]).optional(),
+  shape: z
+    .string()
+    .optional()
+    .describe("The shape of the elements, such as rectangle or elbow"),
+  text: z
+    .string()
+    .optional()
+    .describe("Find elements whose text contains this, ignoring case"),
+  within: z
+    .tuple([pointSchema, pointSchema])
+    .optional()
+    .describe(
+      "Find elements intersecting this area, given as its top left and bottom right corners [[x1, y1], [x2, y2]]"
+    ),
+  boundTo: z
+    .string()
+    .optional()
+    .describe("Find the arrow lines bound to this element at either end"),
+  connectedTo: z
+    .string()
+    .optional()
+    .describe(
+      "Find the elements joined to this element by an arrow line, in either direction"
+    ),
+  limit: summaryLimitSchema,
+});
+
+export const exportSvgArguments = svgExportOptionsSchema.extend({
+  outputPath: z
+    .string()
+    .optional()
+    .describe(
+      "Write the SVG to this file instead of returning it, a path in the MCP server's files directory (MCP_FILES_DIR)"
+    ),
+});
+
+export const importMermaidArguments = z.object({
+  source: z
+    .string()
+    .min(1)
+    .describe(
+      'A Mermaid flowchart, such as "flowchart LR\\n  A[Start] --> B{OK?}\\n  B -->|yes| C([Done])"'
+    ),
+  algorithm: layoutDiagramArguments.shape.algorithm,
+  origin: layoutDiagramArguments.shape.origin,
+  nodeGap: layoutDiagramArguments.shape.nodeGap,
+  layerGap: layoutDiagramArguments.shape.layerGap,
+});
+
+export const exportMermaidArguments = z.object({});
+
+export const importExcalidrawArguments = z
+  .object({
+    path: z
+      .string()
+      .optional()
+      .describe(
+        "A .excalidraw file to import, a path in the MCP server's files directory (MCP_FILES_DIR)"
+      ),
+    content: z
+      .union([
+        z.string(),
+        z.object({ elements: z.array(z.unknown()) }).passthrough(),
+      ])
+      .optional()
+      .describe("The contents of a .excalidraw file, instead of path"),
+    origin: pointSchema
+      .optional()
+      .describe(
+        "Move the drawing so that its top left corner is here, choose a free area of the canvas; by default the original coordinates are kept"
+      ),
+  })
+  .refine((args) => args.path || args.content, {
+    message: "path or content is required",
+    path: ["path"],
+  });
+
+export const exportExcalidrawArguments = z.object({
+  outputPath: z
+    .string()
+    .optional()
+    .describe(
+      "Write the .excalidraw file here instead of returning it, a path in the MCP server's files directory (MCP_FILES_DIR)"
+    ),
+});
+
+export const undoArguments = historyOptionsSchema.extend({
+  origin: historyOptionsSchema.shape.origin.describe(
+    "Only undo or redo operations of this origin: mcp (agents), frontend (the user in the browser), api (other clients) or any, default mcp"
+  ),
+});
+
+export const redoArguments = undoArguments;
+
+export const saveSnapshotArguments = snapshotOptionsSchema;
+
+export const listSnapshotsArguments = z.object({});
+
+export const restoreSnapshotArguments = z.object({
+  snapshot: z.string().min(1).describe("The id or name of the snapshot"),
+});
+
+export const diffSnapshotsArguments = z.object({
+  from: z
+    .string()
+    .min(1)
+    .describe("The id or name of the earlier snapshot, or current"),
+  to: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "The id or name of the later snapshot, or current for the board as it is now, default current"
+    ),
+});
+
+export const syncStatusArguments = z.object({
+  retry: z
+    .boolean()
+    .optional()
+    .describe(
+      "Replay the queued operations now instead of waiting for the next retry"
+    ),
+  clearFailed: z
+    .boolean()
+    .optional()
+    .describe("Forget the failed operations after listing them"),
+});
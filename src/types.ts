@@ -27,12 +27,14 @@ export interface ExcalidrawElementBase {
   customData?: Record<string, any> | null;
   boundElements?: readonly ExcalidrawBoundElement[] | null;
   updated?: number;
+  version?: number;
   containerId?: string | null;
 }
 
 export interface ExcalidrawTextElement extends ExcalidrawElementBase {
   type: 'text';
   text: string;
+  originalText?: string;
   fontSize?: number;
   fontFamily?: number;
   textAlign?: string;
@@ -67,6 +69,7 @@ export interface ExcalidrawArrowElement extends ExcalidrawElementBase {
   endBinding?: ExcalidrawBinding | null;
   startArrowhead?: string | null;
   endArrowhead?: string | null;
+  elbowed?: boolean;
 }
 
 export interface ExcalidrawLineElement extends ExcalidrawElementBase {
@@ -94,6 +97,16 @@ export type ExcalidrawElement =
   | ExcalidrawLineElement
   | ExcalidrawFreedrawElement;
 
+// Contents of a .excalidraw file
+export interface ExcalidrawFile {
+  type: 'excalidraw';
+  version: number;
+  source: string;
+  elements: ExcalidrawElement[];
+  appState?: Record<string, any>;
+  files?: Record<string, any>;
+}
+
 export interface ExcalidrawBoundElement {
   id: string;
   type: 'text' | 'arrow';